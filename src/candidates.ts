@@ -0,0 +1,75 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Message } from "genkit";
+import type { CandidateData, ModelMiddleware } from "genkit/model";
+
+/**
+ * Scores a candidate, higher is better. `message` wraps the candidate
+ * message, e.g. for its `text` or `data`.
+ */
+export type CandidateScorer = (
+  message: Message,
+  candidate: CandidateData,
+) => number | Promise<number>;
+
+/**
+ * Model middleware that asks for `n` candidates and returns the one with the
+ * highest `score` first, which is the one `generate` returns. Candidates
+ * that finished normally are preferred over blocked or truncated ones. The
+ * scores are recorded in the response `custom.bestOf`.
+ *
+ * @example
+ * ```typescript
+ * const { output } = await ai.generate({
+ *   model: gpt4o,
+ *   prompt: 'Write a tagline for a coffee shop.',
+ *   use: [bestOf(3, (message) => -message.text.length)],
+ * });
+ * ```
+ */
+export function bestOf(n: number, score: CandidateScorer): ModelMiddleware {
+  return async (request, next) => {
+    const response = await next({
+      ...request,
+      candidates: request.candidates ?? n,
+    });
+    const candidates = response.candidates ?? [];
+    if (candidates.length < 2) return response;
+
+    const finished = candidates.filter((c) => c.finishReason === "stop");
+    const scored = finished.length ? finished : candidates;
+    const scores = await Promise.all(
+      scored.map((candidate) =>
+        score(new Message(candidate.message), candidate),
+      ),
+    );
+    const best = scored[scores.indexOf(Math.max(...scores))];
+    return {
+      ...response,
+      candidates: [best, ...candidates.filter((c) => c !== best)],
+      custom: {
+        ...(response.custom as object),
+        bestOf: {
+          index: best.index,
+          scores: scored.map((c, i) => ({ index: c.index, score: scores[i] })),
+        },
+      },
+    };
+  };
+}
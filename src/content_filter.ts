@@ -0,0 +1,122 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Result of a harm category, e.g. `violence`. `severity` is set for the
+ * severity-graded categories, `detected` for the detection categories
+ * (jailbreak, protected material...).
+ */
+export interface ContentFilterResult {
+  filtered: boolean;
+  severity?: "safe" | "low" | "medium" | "high";
+  detected?: boolean;
+}
+
+/**
+ * Azure AI Content Safety annotations of a prompt or a completion.
+ */
+export interface ContentFilterResults {
+  hate?: ContentFilterResult;
+  sexual?: ContentFilterResult;
+  violence?: ContentFilterResult;
+  selfHarm?: ContentFilterResult;
+  profanity?: ContentFilterResult;
+  jailbreak?: ContentFilterResult;
+  indirectAttack?: ContentFilterResult;
+  protectedMaterialText?: ContentFilterResult;
+  protectedMaterialCode?: ContentFilterResult & {
+    citation?: { url?: string; license?: string };
+  };
+  customBlocklists?: {
+    filtered: boolean;
+    details?: Array<{ id: string; filtered: boolean }>;
+  };
+
+  /**
+   * Set when the content could not be annotated, e.g. on a filter timeout.
+   */
+  error?: { code: string; message: string };
+}
+
+const CATEGORIES: Record<string, keyof ContentFilterResults> = {
+  hate: "hate",
+  sexual: "sexual",
+  violence: "violence",
+  self_harm: "selfHarm",
+  profanity: "profanity",
+  jailbreak: "jailbreak",
+  indirect_attack: "indirectAttack",
+  protected_material_text: "protectedMaterialText",
+  protected_material_code: "protectedMaterialCode",
+  custom_blocklists: "customBlocklists",
+  error: "error",
+};
+
+type RawResults = Record<string, Record<string, unknown> | undefined>;
+
+/**
+ * Maps the `content_filter_results` of an Azure response to typed results,
+ * or `undefined` when there are none.
+ */
+export function fromContentFilterResults(
+  raw: unknown,
+): ContentFilterResults | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const results: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw as RawResults)) {
+    const category = CATEGORIES[key];
+    if (!category || !value) continue;
+    if (category === "protectedMaterialCode" && value.citation) {
+      const { URL: url, license } = value.citation as Record<string, string>;
+      results[category] = { ...value, citation: { url, license } };
+    } else {
+      results[category] = value;
+    }
+  }
+  return Object.keys(results).length
+    ? (results as ContentFilterResults)
+    : undefined;
+}
+
+/**
+ * Maps the `prompt_filter_results` of an Azure response to the typed results
+ * of the first prompt.
+ */
+export function fromPromptFilterResults(
+  raw: unknown,
+): ContentFilterResults | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return fromContentFilterResults(raw[0]?.content_filter_results);
+}
+
+/**
+ * Names the filtered categories of `results`, with their severity, e.g.
+ * `violence (high), jailbreak`.
+ */
+export function filteredCategories(results?: ContentFilterResults): string {
+  return Object.entries(results ?? {})
+    .filter(
+      ([category, result]) =>
+        category !== "error" && (result as ContentFilterResult).filtered,
+    )
+    .map(([category, result]) => {
+      const { severity } = result as ContentFilterResult;
+      return severity ? `${category} (${severity})` : category;
+    })
+    .join(", ");
+}
@@ -22,6 +22,11 @@ import type { ModelAction } from "genkit/model";
 import { modelRef } from "genkit/model";
 import AzureOpenAI from "openai";
 import { ImageGenerateParams, ImagesResponse } from "openai/resources/images";
+import { fromContentFilterResults } from "./content_filter.js";
+import { fromContentFilterError } from "./errors.js";
+import type { CostTracker } from "./pricing.js";
+import { RetryOptionsSchema, type RetryPolicy } from "./retry.js";
+import { modelId, modelMiddleware } from "./utils.js";
 
 export const DallE3ConfigSchema = GenerationCommonConfigSchema.extend({
   size: z.enum(["1024x1024", "1792x1024", "1024x1792"]).optional(),
@@ -29,6 +34,10 @@ export const DallE3ConfigSchema = GenerationCommonConfigSchema.extend({
   user: z.string().optional(),
   quality: z.enum(["standard", "hd"]).optional(),
   response_format: z.enum(["b64_json", "url"]).optional(),
+  /**
+   * Retry policy of this request, merged over the plugin's `retry` option.
+   */
+  retry: RetryOptionsSchema.optional(),
 });
 
 export const dallE3 = modelRef({
@@ -50,9 +59,10 @@ function toDallE3Request(
   request: GenerateRequest & {
     config?: { custom?: z.infer<typeof DallE3ConfigSchema> };
   },
+  deployment = "dall-e-3",
 ): ImageGenerateParams {
   const options: Partial<ImageGenerateParams> = {
-    model: "dall-e-3",
+    model: deployment,
     prompt: new Message(request.messages[0]).text,
     n: request.candidates || 1,
     size: request.config?.custom?.size,
@@ -74,40 +84,72 @@ function toGenerateResponse(result: ImagesResponse): GenerateResponseData {
     url?: string;
     b64_json?: string;
     revised_prompt?: string;
+    // Azure content filter annotations of the image and of its prompt.
+    content_filter_results?: unknown;
+    prompt_filter_results?: unknown;
   }
   const candidates: GenerateResponseData["candidates"] = (
     result.data || []
-  ).map((image: ImageData, index: number) => ({
-    index: index,
-    finishReason: "stop",
-    custom: { revisedPrompt: image.revised_prompt },
-    message: {
-      role: "model",
-      content: [
-        {
-          media: {
-            contentType: "image/png",
-            url: image.url || `data:image/png;base64,${image.b64_json}`,
+  ).map((image: ImageData, index: number) => {
+    const contentFilterResults = fromContentFilterResults(
+      image.content_filter_results,
+    );
+    const promptFilterResults = fromContentFilterResults(
+      image.prompt_filter_results,
+    );
+    const metadata = {
+      ...(contentFilterResults && { contentFilterResults }),
+      ...(promptFilterResults && { promptFilterResults }),
+    };
+    return {
+      index: index,
+      finishReason: "stop",
+      custom: {
+        revisedPrompt: image.revised_prompt,
+        contentFilterResults,
+        promptFilterResults,
+      },
+      message: {
+        role: "model",
+        metadata: Object.keys(metadata).length ? metadata : undefined,
+        content: [
+          {
+            media: {
+              contentType: "image/png",
+              url: image.url || `data:image/png;base64,${image.b64_json}`,
+            },
           },
-        },
-      ],
-    },
-  }));
-  return { candidates };
+        ],
+      },
+    };
+  });
+  return {
+    candidates,
+    usage: { outputImages: candidates.length },
+  };
 }
 
 export function dallE3Model(
   ai: Genkit,
   client: AzureOpenAI,
+  deployment?: string,
+  resource?: string,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
 ): ModelAction<typeof DallE3ConfigSchema> {
   return ai.defineModel<typeof DallE3ConfigSchema>(
     {
-      name: dallE3.name,
+      name: modelId("dall-e-3", resource),
       ...dallE3.info,
       configSchema: dallE3.configSchema,
+      use: modelMiddleware("dall-e-3", costs, retry),
     },
     async (request) => {
-      const result = await client.images.generate(toDallE3Request(request));
+      const result = await client.images
+        .generate(toDallE3Request(request, deployment))
+        .catch((e) => {
+          throw fromContentFilterError(e);
+        });
       return toGenerateResponse(result as ImagesResponse);
     },
   );
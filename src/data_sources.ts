@@ -0,0 +1,333 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from "genkit";
+
+const ApiKeyAuthSchema = z.object({
+  type: z.literal("api_key"),
+  key: z.string(),
+});
+
+const AccessTokenAuthSchema = z.object({
+  type: z.literal("access_token"),
+  accessToken: z.string(),
+});
+
+const SystemAssignedManagedIdentityAuthSchema = z.object({
+  type: z.literal("system_assigned_managed_identity"),
+});
+
+const UserAssignedManagedIdentityAuthSchema = z.object({
+  type: z.literal("user_assigned_managed_identity"),
+  managedIdentityResourceId: z.string(),
+});
+
+/**
+ * Embedding model used for vector search, either an Azure OpenAI deployment
+ * of the same resource or an embeddings endpoint.
+ */
+const EmbeddingDependencySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("deployment_name"),
+    deploymentName: z.string(),
+  }),
+  z.object({
+    type: z.literal("endpoint"),
+    endpoint: z.string(),
+    authentication: z.union([ApiKeyAuthSchema, AccessTokenAuthSchema]),
+  }),
+  z.object({
+    type: z.literal("model_id"),
+    modelId: z.string(),
+  }),
+  z.object({
+    type: z.literal("integrated"),
+  }),
+]);
+
+const FieldsMappingSchema = z.object({
+  contentFields: z.array(z.string()).optional(),
+  contentFieldsSeparator: z.string().optional(),
+  titleField: z.string().optional(),
+  urlField: z.string().optional(),
+  filepathField: z.string().optional(),
+  vectorFields: z.array(z.string()).optional(),
+});
+
+const CommonParametersSchema = z.object({
+  /**
+   * Restricts answers to the retrieved documents.
+   * @default true
+   */
+  inScope: z.boolean().optional(),
+  /**
+   * How aggressively irrelevant documents are filtered out, from 1 to 5.
+   */
+  strictness: z.number().int().min(1).max(5).optional(),
+  topNDocuments: z.number().int().optional(),
+  maxSearchQueries: z.number().int().optional(),
+  allowPartialResult: z.boolean().optional(),
+  /**
+   * Context returned with the answer.
+   * @default ['citations', 'intent']
+   */
+  includeContexts: z
+    .array(z.enum(["citations", "intent", "all_retrieved_documents"]))
+    .optional(),
+});
+
+const AzureSearchSourceSchema = z.object({
+  type: z.literal("azure_search"),
+  parameters: CommonParametersSchema.extend({
+    endpoint: z.string(),
+    indexName: z.string(),
+    authentication: z.union([
+      ApiKeyAuthSchema,
+      AccessTokenAuthSchema,
+      SystemAssignedManagedIdentityAuthSchema,
+      UserAssignedManagedIdentityAuthSchema,
+    ]),
+    fieldsMapping: FieldsMappingSchema.optional(),
+    queryType: z
+      .enum([
+        "simple",
+        "semantic",
+        "vector",
+        "vector_simple_hybrid",
+        "vector_semantic_hybrid",
+      ])
+      .optional(),
+    semanticConfiguration: z.string().optional(),
+    filter: z.string().optional(),
+    embeddingDependency: EmbeddingDependencySchema.optional(),
+  }),
+});
+
+const AzureCosmosDbSourceSchema = z.object({
+  type: z.literal("azure_cosmos_db"),
+  parameters: CommonParametersSchema.extend({
+    databaseName: z.string(),
+    containerName: z.string(),
+    indexName: z.string(),
+    authentication: z.object({
+      type: z.literal("connection_string"),
+      connectionString: z.string(),
+    }),
+    fieldsMapping: FieldsMappingSchema,
+    embeddingDependency: EmbeddingDependencySchema,
+  }),
+});
+
+const ElasticsearchSourceSchema = z.object({
+  type: z.literal("elasticsearch"),
+  parameters: CommonParametersSchema.extend({
+    endpoint: z.string(),
+    indexName: z.string(),
+    authentication: z.union([
+      z.object({
+        type: z.literal("key_and_key_id"),
+        key: z.string(),
+        keyId: z.string(),
+      }),
+      z.object({
+        type: z.literal("encoded_api_key"),
+        encodedApiKey: z.string(),
+      }),
+    ]),
+    fieldsMapping: FieldsMappingSchema.optional(),
+    queryType: z.enum(["simple", "vector"]).optional(),
+    embeddingDependency: EmbeddingDependencySchema.optional(),
+  }),
+});
+
+const PineconeSourceSchema = z.object({
+  type: z.literal("pinecone"),
+  parameters: CommonParametersSchema.extend({
+    environment: z.string(),
+    indexName: z.string(),
+    authentication: ApiKeyAuthSchema,
+    fieldsMapping: FieldsMappingSchema,
+    embeddingDependency: EmbeddingDependencySchema,
+  }),
+});
+
+const MongoDbSourceSchema = z.object({
+  type: z.literal("mongo_db"),
+  parameters: CommonParametersSchema.extend({
+    endpoint: z.string(),
+    databaseName: z.string(),
+    collectionName: z.string(),
+    appName: z.string(),
+    indexName: z.string(),
+    authentication: z.object({
+      type: z.literal("username_and_password"),
+      username: z.string(),
+      password: z.string(),
+    }),
+    fieldsMapping: FieldsMappingSchema,
+    embeddingDependency: EmbeddingDependencySchema,
+  }),
+});
+
+export interface AzureSearchDataSource {
+  type: "azure_search";
+  parameters: z.infer<typeof AzureSearchSourceSchema>["parameters"];
+}
+
+export interface AzureCosmosDbDataSource {
+  type: "azure_cosmos_db";
+  parameters: z.infer<typeof AzureCosmosDbSourceSchema>["parameters"];
+}
+
+export interface ElasticsearchDataSource {
+  type: "elasticsearch";
+  parameters: z.infer<typeof ElasticsearchSourceSchema>["parameters"];
+}
+
+export interface PineconeDataSource {
+  type: "pinecone";
+  parameters: z.infer<typeof PineconeSourceSchema>["parameters"];
+}
+
+export interface MongoDbDataSource {
+  type: "mongo_db";
+  parameters: z.infer<typeof MongoDbSourceSchema>["parameters"];
+}
+
+/**
+ * An Azure OpenAI On Your Data source that grounds chat completions. Fields
+ * are the camelCase counterparts of the REST API parameters.
+ */
+export type DataSource =
+  | AzureSearchDataSource
+  | AzureCosmosDbDataSource
+  | ElasticsearchDataSource
+  | PineconeDataSource
+  | MongoDbDataSource;
+
+// Typed with the named interfaces above, so the config schemas that embed it
+// stay within the size the compiler can emit in declarations.
+export const DataSourceSchema: z.ZodType<DataSource> = z.discriminatedUnion(
+  "type",
+  [
+    AzureSearchSourceSchema,
+    AzureCosmosDbSourceSchema,
+    ElasticsearchSourceSchema,
+    PineconeSourceSchema,
+    MongoDbSourceSchema,
+  ],
+);
+
+function toSnakeCaseKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toSnakeCaseKeys);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`),
+      toSnakeCaseKeys(item),
+    ]),
+  );
+}
+
+/**
+ * Maps data sources to the `data_sources` of a chat completions request.
+ */
+export function toDataSources(sources: DataSource[]): unknown[] {
+  return sources.map(toSnakeCaseKeys) as unknown[];
+}
+
+/**
+ * A retrieved document cited by the answer. The `[docN]` markers in the
+ * answer text refer to the N-th citation.
+ */
+export interface Citation {
+  content: string;
+  title?: string;
+  url?: string;
+  filepath?: string;
+  chunkId?: string;
+  rerankScore?: number;
+}
+
+export interface RetrievedDocument extends Citation {
+  searchQueries?: string[];
+  dataSourceIndex?: number;
+  originalSearchScore?: number;
+  filterReason?: string;
+}
+
+/**
+ * Grounding context of an On Your Data answer.
+ */
+export interface DataSourceContext {
+  citations?: Citation[];
+
+  /**
+   * Search queries the model derived from the conversation.
+   */
+  intent?: string[];
+
+  allRetrievedDocuments?: RetrievedDocument[];
+}
+
+function toCamelCaseKeys<T>(value: Record<string, unknown>): T {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase()),
+      item,
+    ]),
+  ) as T;
+}
+
+/**
+ * Maps the `context` of an On Your Data answer message, or returns
+ * `undefined` when the answer was not grounded.
+ */
+export function fromDataSourceContext(
+  raw: unknown,
+): DataSourceContext | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const {
+    citations,
+    intent,
+    all_retrieved_documents: documents,
+  } = raw as {
+    citations?: Record<string, unknown>[];
+    intent?: string;
+    all_retrieved_documents?: Record<string, unknown>[];
+  };
+  const context: DataSourceContext = {};
+  if (citations) {
+    context.citations = citations.map((c) => toCamelCaseKeys<Citation>(c));
+  }
+  if (intent) {
+    // The intent is a JSON encoded list of search queries.
+    try {
+      const queries = JSON.parse(intent);
+      context.intent = Array.isArray(queries) ? queries : [intent];
+    } catch {
+      context.intent = [intent];
+    }
+  }
+  if (documents) {
+    context.allRetrievedDocuments = documents.map((d) =>
+      toCamelCaseKeys<RetrievedDocument>(d),
+    );
+  }
+  return Object.keys(context).length ? context : undefined;
+}
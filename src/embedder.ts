@@ -19,10 +19,17 @@
 import type { Genkit } from "genkit";
 import { embedderRef, z } from "genkit";
 import { AzureOpenAI } from "openai";
+import type { CostTracker } from "./pricing.js";
+import { RetryOptionsSchema, type RetryPolicy } from "./retry.js";
+import { modelId } from "./utils.js";
 
 export const TextEmbeddingConfigSchema = z.object({
   dimensions: z.number().optional(),
   encodingFormat: z.union([z.literal("float"), z.literal("base64")]).optional(),
+  /**
+   * Retry policy of this call, merged over the plugin's `retry` option.
+   */
+  retry: RetryOptionsSchema.optional(),
 });
 
 export type TextEmbeddingGeckoConfig = z.infer<
@@ -73,7 +80,15 @@ export const SUPPORTED_EMBEDDING_MODELS = {
   "text-embedding-ada-002": textEmbeddingAda002,
 };
 
-export function openaiEmbedder(ai: Genkit, name: string, client: AzureOpenAI) {
+export function openaiEmbedder(
+  ai: Genkit,
+  name: string,
+  client: AzureOpenAI,
+  deployment?: string,
+  resource?: string,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
+) {
   const model =
     SUPPORTED_EMBEDDING_MODELS[name as keyof typeof SUPPORTED_EMBEDDING_MODELS];
   if (!model) throw new Error(`Unsupported model: ${name}`);
@@ -82,14 +97,22 @@ export function openaiEmbedder(ai: Genkit, name: string, client: AzureOpenAI) {
     {
       info: model.info!,
       configSchema: TextEmbeddingConfigSchema,
-      name: model.name,
+      name: modelId(name, resource),
     },
     async (input, options) => {
-      const embeddings = await client.embeddings.create({
-        model: name,
-        input: input.map((d) => d.text),
-        dimensions: options?.dimensions,
-        encoding_format: options?.encodingFormat,
+      const budgetKey = costs?.check();
+      const create = () =>
+        client.embeddings.create({
+          model: deployment ?? name,
+          input: input.map((d) => d.text),
+          dimensions: options?.dimensions,
+          encoding_format: options?.encodingFormat,
+        });
+      const embeddings = retry
+        ? await retry.run(create, options?.retry)
+        : await create();
+      costs?.record(name, budgetKey, {
+        inputTokens: embeddings.usage?.prompt_tokens,
       });
       return {
         embeddings: embeddings.data.map((d) => ({ embedding: d.embedding })),
@@ -0,0 +1,343 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createPrivateKey,
+  randomUUID,
+  sign,
+  X509Certificate,
+} from "node:crypto";
+import { readFile } from "node:fs/promises";
+
+const DEFAULT_SCOPE = "https://cognitiveservices.azure.com/.default";
+const DEFAULT_AUTHORITY_HOST = "https://login.microsoftonline.com";
+const IMDS_ENDPOINT = "http://169.254.169.254/metadata/identity/oauth2/token";
+
+/**
+ * Options shared by every Microsoft Entra ID credential.
+ */
+interface EntraIdCommonOptions {
+  /**
+   * Scope requested for the access token.
+   * @default 'https://cognitiveservices.azure.com/.default'
+   */
+  scope?: string;
+
+  /**
+   * How long before expiry a cached token is proactively refreshed.
+   * @default 300000 (5 minutes)
+   */
+  refreshBeforeExpiryMs?: number;
+}
+
+/**
+ * Options for credentials issued by a Microsoft Entra ID tenant.
+ */
+interface EntraIdTenantOptions extends EntraIdCommonOptions {
+  /**
+   * Directory (tenant) ID.
+   */
+  tenantId: string;
+
+  /**
+   * Application (client) ID.
+   */
+  clientId: string;
+
+  /**
+   * Host of the Microsoft Entra authority, e.g. for sovereign clouds or a
+   * local fake token endpoint.
+   * @default 'https://login.microsoftonline.com'
+   */
+  authorityHost?: string;
+}
+
+/**
+ * Managed identity of the Azure host (VM, App Service, Functions, Container
+ * Apps...).
+ */
+export interface ManagedIdentityOptions extends EntraIdCommonOptions {
+  type: "managedIdentity";
+
+  /**
+   * Client ID of a user-assigned managed identity. Omit for the
+   * system-assigned identity.
+   */
+  clientId?: string;
+
+  /**
+   * Token endpoint. Defaults to `IDENTITY_ENDPOINT` (App Service, Functions,
+   * Container Apps), falling back to the instance metadata service.
+   */
+  endpoint?: string;
+}
+
+/**
+ * Workload identity federation, e.g. on AKS or GitHub Actions.
+ */
+export interface WorkloadIdentityOptions extends Partial<EntraIdTenantOptions> {
+  type: "workloadIdentity";
+
+  /**
+   * File holding the federated token.
+   * @default process.env.AZURE_FEDERATED_TOKEN_FILE
+   */
+  tokenFilePath?: string;
+}
+
+/**
+ * Service principal authenticating with a client secret.
+ */
+export interface ClientSecretOptions extends EntraIdTenantOptions {
+  type: "clientSecret";
+  clientSecret: string;
+}
+
+/**
+ * Service principal authenticating with a certificate.
+ */
+export interface ClientCertificateOptions extends EntraIdTenantOptions {
+  type: "clientCertificate";
+
+  /**
+   * PEM encoded certificate.
+   */
+  certificate: string;
+
+  /**
+   * PEM encoded private key. Defaults to the key bundled in `certificate`.
+   */
+  privateKey?: string;
+}
+
+/**
+ * Microsoft Entra ID (keyless) authentication options.
+ */
+export type EntraIdOptions =
+  | ManagedIdentityOptions
+  | WorkloadIdentityOptions
+  | ClientSecretOptions
+  | ClientCertificateOptions;
+
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number | string;
+  expires_on?: number | string;
+  error?: string;
+  error_description?: string;
+  message?: string;
+}
+
+interface AccessToken {
+  token: string;
+  expiresAt: number;
+}
+
+function base64Url(data: Buffer | string): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+function clientAssertion(
+  options: ClientCertificateOptions,
+  tokenEndpoint: string,
+): string {
+  const certificate = new X509Certificate(options.certificate);
+  const thumbprint = Buffer.from(
+    certificate.fingerprint.replace(/:/g, ""),
+    "hex",
+  );
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(
+    JSON.stringify({ alg: "RS256", typ: "JWT", x5t: base64Url(thumbprint) }),
+  );
+  const payload = base64Url(
+    JSON.stringify({
+      aud: tokenEndpoint,
+      iss: options.clientId,
+      sub: options.clientId,
+      jti: randomUUID(),
+      nbf: now,
+      exp: now + 600,
+    }),
+  );
+  const signature = sign(
+    "sha256",
+    Buffer.from(`${header}.${payload}`),
+    createPrivateKey(options.privateKey ?? options.certificate),
+  );
+  return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+async function parseTokenResponse(response: Response): Promise<AccessToken> {
+  const body = (await response.json().catch(() => ({}))) as TokenResponse;
+  if (!response.ok || !body.access_token) {
+    throw new Error(
+      `Failed to acquire Microsoft Entra ID token (${response.status}): ${
+        body.error_description ?? body.message ?? body.error ?? "no details"
+      }`,
+    );
+  }
+  const expiresAt = body.expires_on
+    ? Number(body.expires_on) * 1000
+    : Date.now() + Number(body.expires_in ?? 3600) * 1000;
+  return { token: body.access_token, expiresAt };
+}
+
+function tenantTokenEndpoint(options: EntraIdTenantOptions): string {
+  const authorityHost = (
+    options.authorityHost ?? DEFAULT_AUTHORITY_HOST
+  ).replace(/\/+$/, "");
+  return `${authorityHost}/${options.tenantId}/oauth2/v2.0/token`;
+}
+
+async function requestTenantToken(
+  options: EntraIdTenantOptions,
+  params: Record<string, string>,
+): Promise<AccessToken> {
+  const response = await fetch(tenantTokenEndpoint(options), {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: options.clientId,
+      scope: options.scope ?? DEFAULT_SCOPE,
+      grant_type: "client_credentials",
+      ...params,
+    }),
+  });
+  return parseTokenResponse(response);
+}
+
+async function requestManagedIdentityToken(
+  options: ManagedIdentityOptions,
+): Promise<AccessToken> {
+  const resource = (options.scope ?? DEFAULT_SCOPE).replace(/\/\.default$/, "");
+  const identityEndpoint = options.endpoint ?? process.env.IDENTITY_ENDPOINT;
+  const identityHeader = process.env.IDENTITY_HEADER;
+  const url = new URL(identityEndpoint ?? IMDS_ENDPOINT);
+  url.searchParams.set(
+    "api-version",
+    identityEndpoint && identityHeader ? "2019-08-01" : "2018-02-01",
+  );
+  url.searchParams.set("resource", resource);
+  if (options.clientId) {
+    url.searchParams.set("client_id", options.clientId);
+  }
+  const response = await fetch(url, {
+    headers:
+      identityEndpoint && identityHeader
+        ? { "X-IDENTITY-HEADER": identityHeader }
+        : { Metadata: "true" },
+  });
+  return parseTokenResponse(response);
+}
+
+async function requestToken(options: EntraIdOptions): Promise<AccessToken> {
+  switch (options.type) {
+    case "managedIdentity":
+      return requestManagedIdentityToken(options);
+    case "clientSecret":
+      return requestTenantToken(options, {
+        client_secret: options.clientSecret,
+      });
+    case "clientCertificate": {
+      return requestTenantToken(options, {
+        client_assertion_type:
+          "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+        client_assertion: clientAssertion(
+          options,
+          tenantTokenEndpoint(options),
+        ),
+      });
+    }
+    case "workloadIdentity": {
+      const tenantId = options.tenantId ?? process.env.AZURE_TENANT_ID;
+      const clientId = options.clientId ?? process.env.AZURE_CLIENT_ID;
+      const tokenFilePath =
+        options.tokenFilePath ?? process.env.AZURE_FEDERATED_TOKEN_FILE;
+      if (!tenantId || !clientId || !tokenFilePath) {
+        throw new Error(
+          "Workload identity requires tenantId, clientId and tokenFilePath, or the AZURE_TENANT_ID, AZURE_CLIENT_ID and AZURE_FEDERATED_TOKEN_FILE environment variables.",
+        );
+      }
+      const assertion = (await readFile(tokenFilePath, "utf8")).trim();
+      return requestTenantToken(
+        {
+          ...options,
+          tenantId,
+          clientId,
+          authorityHost:
+            options.authorityHost ?? process.env.AZURE_AUTHORITY_HOST,
+        },
+        {
+          client_assertion_type:
+            "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+          client_assertion: assertion,
+        },
+      );
+    }
+    default:
+      throw new Error(
+        `Unsupported Microsoft Entra ID credential type: ${(options as { type: string }).type}`,
+      );
+  }
+}
+
+/**
+ * Creates an `azureADTokenProvider` for the given Microsoft Entra ID
+ * credential. Tokens are cached and refreshed ahead of expiry; concurrent
+ * callers share a single token request, and a still valid token is returned
+ * if a proactive refresh fails.
+ *
+ * @example
+ * ```typescript
+ * const client = new AzureOpenAI({
+ *   endpoint,
+ *   apiVersion,
+ *   azureADTokenProvider: entraIdTokenProvider({ type: 'managedIdentity' }),
+ * });
+ * ```
+ */
+export function entraIdTokenProvider(
+  options: EntraIdOptions,
+): () => Promise<string> {
+  const refreshBeforeExpiryMs = options.refreshBeforeExpiryMs ?? 5 * 60_000;
+  let cached: AccessToken | undefined;
+  let pending: Promise<AccessToken> | undefined;
+
+  const refresh = () => {
+    pending ??= requestToken(options)
+      .then((token) => (cached = token))
+      .finally(() => (pending = undefined));
+    return pending;
+  };
+
+  return async () => {
+    const now = Date.now();
+    if (cached && now < cached.expiresAt - refreshBeforeExpiryMs) {
+      return cached.token;
+    }
+    if (cached && now < cached.expiresAt) {
+      const stale = cached;
+      return refresh().then(
+        (token) => token.token,
+        () => stale.token,
+      );
+    }
+    return (await refresh()).token;
+  };
+}
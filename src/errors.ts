@@ -0,0 +1,142 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { CandidateData } from "genkit/model";
+import { APIError } from "openai";
+import {
+  filteredCategories,
+  fromContentFilterResults,
+  type ContentFilterResults,
+} from "./content_filter.js";
+
+/**
+ * Thrown when a model asked for JSON output returns text that is not valid
+ * JSON, most often because it ran out of output tokens. The raw output is
+ * kept in `text`.
+ */
+export class InvalidJsonOutputError extends Error {
+  constructor(
+    readonly text: string,
+    readonly finishReason?: CandidateData["finishReason"],
+  ) {
+    super(
+      finishReason === "length"
+        ? "Model output was cut off by the token limit before the JSON was complete. Increase maxOutputTokens or ask for a shorter output."
+        : "Model output is not valid JSON.",
+    );
+    this.name = "InvalidJsonOutputError";
+  }
+}
+
+/**
+ * Parses the JSON output of a model, throwing an `InvalidJsonOutputError`
+ * with the raw text when it is invalid or truncated.
+ */
+export function parseJsonOutput(
+  text: string,
+  finishReason?: CandidateData["finishReason"],
+): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new InvalidJsonOutputError(text, finishReason);
+  }
+}
+
+/**
+ * Thrown when a JSON schema cannot be expressed in the subset accepted by
+ * strict structured outputs or strict function calling. `path` points to the
+ * offending part of the schema, e.g. `$.properties.address.allOf`.
+ */
+export class StrictSchemaError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly path: string,
+  ) {
+    super(`Schema is not supported in strict mode at ${path}: ${reason}.`);
+    this.name = "StrictSchemaError";
+  }
+}
+
+/**
+ * Thrown when a call would exceed a spend limit, because the budget `key`
+ * has already spent `spent` USD of its `limit`.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly key: string,
+    readonly limit: number,
+    readonly spent: number,
+  ) {
+    super(
+      `Budget '${key}' exceeded: spent $${spent.toFixed(4)} of $${limit.toFixed(4)}.`,
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Thrown when Azure AI Content Safety rejects a request (400 with a
+ * `content_filter` code) because the prompt was filtered, or for DALL-E
+ * because the prompt or the generated image was. The annotations of the
+ * filtered content are in `results`.
+ */
+export class ContentFilterError extends Error {
+  constructor(
+    message: string,
+    readonly results?: ContentFilterResults,
+    readonly revisedPrompt?: string,
+    options?: ErrorOptions,
+  ) {
+    const categories = filteredCategories(results);
+    super(
+      categories ? `${message} Filtered categories: ${categories}.` : message,
+      options,
+    );
+    this.name = "ContentFilterError";
+  }
+}
+
+/**
+ * Maps an API error caused by the content filter to a `ContentFilterError`,
+ * and returns any other error unchanged.
+ */
+export function fromContentFilterError(error: unknown): unknown {
+  if (!(error instanceof APIError) || error.status !== 400) return error;
+  const body = error.error as Record<string, unknown> | undefined;
+  const code = String(error.code ?? body?.code ?? "");
+  if (
+    !["content_filter", "contentFilter", "content_policy_violation"].includes(
+      code,
+    )
+  ) {
+    return error;
+  }
+  // Chat completions report `innererror.content_filter_result`, DALL-E
+  // `inner_error.content_filter_results`.
+  const inner = (body?.innererror ?? body?.inner_error) as
+    Record<string, unknown> | undefined;
+  return new ContentFilterError(
+    String(body?.message ?? error.message),
+    fromContentFilterResults(
+      inner?.content_filter_result ?? inner?.content_filter_results,
+    ),
+    inner?.revised_prompt as string | undefined,
+    { cause: error },
+  );
+}
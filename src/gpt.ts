@@ -19,31 +19,78 @@
 import { GenerationCommonConfigSchema, Message, z } from "genkit";
 import type {
   GenerateRequest,
+  GenerationUsage,
   Genkit,
   MessageData,
   Part,
   Role,
   StreamingCallback,
   ToolRequestPart,
+  ToolResponsePart,
 } from "genkit";
 import {
   CandidateData,
   GenerateResponseChunkData,
+  ModelInfo,
+  ModelReference,
   modelRef,
   ToolDefinition,
 } from "genkit/model";
-import { AzureOpenAI } from "openai";
+import { APIError, AzureOpenAI } from "openai";
 import {
   type ChatCompletion,
+  type ChatCompletionAssistantMessageParam,
+  type ChatCompletionAudio,
   type ChatCompletionChunk,
   type ChatCompletionContentPart,
+  type ChatCompletionContentPartText,
   type ChatCompletionCreateParamsNonStreaming,
+  type ChatCompletionFunctionTool,
   type ChatCompletionMessageParam,
   type ChatCompletionMessageToolCall,
   type ChatCompletionRole,
-  type ChatCompletionTool,
+  type ChatCompletionTokenLogprob,
+  type ChatCompletionToolChoiceOption,
+  type ChatCompletionUserMessageParam,
   type CompletionChoice,
+  type CompletionUsage,
 } from "openai/resources/index";
+import {
+  filteredCategories,
+  fromContentFilterResults,
+  fromPromptFilterResults,
+  type ContentFilterResults,
+} from "./content_filter.js";
+import {
+  DataSourceSchema,
+  fromDataSourceContext,
+  toDataSources,
+} from "./data_sources.js";
+import {
+  fromContentFilterError,
+  InvalidJsonOutputError,
+  parseJsonOutput,
+} from "./errors.js";
+import type { CostTracker } from "./pricing.js";
+import { estimateTokens, type RateLimiter } from "./rate_limit.js";
+import { RetryOptionsSchema, type RetryPolicy } from "./retry.js";
+import { DeploymentRouter } from "./router.js";
+import {
+  outputInstructions,
+  parseToolInput,
+  removeOptionalNulls,
+  toStrictJsonSchema,
+  tryStrictJsonSchema,
+  type JSONSchema,
+} from "./schema.js";
+import { PartialJsonAccumulator, ToolCallAccumulator } from "./stream.js";
+import {
+  dataUrlData,
+  mediaContentType,
+  mediaFilename,
+  modelId,
+  modelMiddleware,
+} from "./utils.js";
 
 type VisualDetailLevel = "low" | "auto" | "high";
 
@@ -97,8 +144,146 @@ export const OpenAiConfigSchema = GenerationCommonConfigSchema.extend({
   topLogProbs: z.number().int().min(0).max(20).optional(),
   user: z.string().optional(),
   visualDetailLevel: z.enum(["auto", "low", "high"]).optional(),
+  /**
+   * When streaming, also emit tool requests while their arguments are still
+   * arriving, as `partial` tool requests with the arguments parsed so far.
+   * Complete tool requests are always emitted once the choice finishes.
+   */
+  toolCallPreviews: z.boolean().optional(),
+  /**
+   * Lets the model call several tools in a single turn.
+   * @default true
+   */
+  parallelToolCalls: z.boolean().optional(),
+  /**
+   * Name of a tool the model must call. Takes precedence over the
+   * `toolChoice` generate option.
+   */
+  forcedTool: z.string().optional(),
+  /**
+   * Sends tools with strict function calling, so tool arguments always match
+   * the input schema. Input schemas are rewritten into the subset strict mode
+   * accepts: optional properties become nullable and keywords such as
+   * `format` or `default` are moved into descriptions.
+   */
+  strictTools: z.boolean().optional(),
+  /**
+   * Azure OpenAI On Your Data sources that ground the answer, e.g. an Azure
+   * AI Search index. Citations and search intent are returned in the
+   * message `metadata`.
+   */
+  dataSources: z.array(DataSourceSchema).optional(),
+  /**
+   * Predicted output, e.g. the current version of a file being edited, as
+   * text or Genkit text parts. Output matching the prediction is generated
+   * faster; the accepted and rejected prediction tokens are reported in
+   * `usage.custom`.
+   */
+  prediction: z
+    .union([z.string(), z.array(z.object({ text: z.string() }))])
+    .optional(),
+  /**
+   * Number of candidates to generate, sent as `n`. `generate` returns the
+   * first one unless a `bestOf` middleware picks another; when streaming,
+   * only the first candidate is streamed.
+   */
+  candidateCount: z.number().int().min(1).optional(),
+  /**
+   * Retry policy of this request, merged over the plugin's `retry` option.
+   */
+  retry: RetryOptionsSchema.optional(),
+});
+
+/**
+ * Config for reasoning models (o-series and gpt-5 family). `maxOutputTokens`
+ * is sent as `max_completion_tokens`, and sampling parameters these models
+ * reject (`temperature`, `topP`, penalties, log probabilities, logit bias)
+ * are dropped from the request.
+ */
+export const ReasoningConfigSchema = OpenAiConfigSchema.extend({
+  reasoningEffort: z
+    .enum(["none", "minimal", "low", "medium", "high", "xhigh"])
+    .optional(),
+  verbosity: z.enum(["low", "medium", "high"]).optional(),
+  maxCompletionTokens: z.number().int().optional(),
 });
 
+/**
+ * Config for audio-capable chat models. Set `modalities: ['text', 'audio']`
+ * to get spoken responses, returned as `media` parts alongside their
+ * transcript.
+ */
+export const AudioConfigSchema = OpenAiConfigSchema.extend({
+  modalities: z.array(z.enum(["text", "audio"])).optional(),
+  /**
+   * Voice and format of audio responses. Streaming requires `pcm16`.
+   * @default { voice: 'alloy', format: 'wav' }
+   */
+  audio: z
+    .object({
+      voice: z.string(),
+      format: z.enum(["wav", "mp3", "flac", "opus", "pcm16", "aac"]),
+    })
+    .optional(),
+});
+
+const AUDIO_OUTPUT_CONTENT_TYPES: Record<string, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  flac: "audio/flac",
+  opus: "audio/opus",
+  pcm16: "audio/pcm",
+  aac: "audio/aac",
+};
+
+interface ReasoningSupport {
+  reasoningEffort: boolean;
+  verbosity: boolean;
+  /**
+   * Whether system instructions can be sent as developer messages. Models
+   * that accept neither developer nor system messages get them folded into
+   * the first user message instead.
+   * @default true
+   */
+  developerRole?: boolean;
+}
+
+const REASONING_MODELS: Record<string, ReasoningSupport> = {
+  "o1-mini": { reasoningEffort: false, verbosity: false, developerRole: false },
+  "o1-preview": {
+    reasoningEffort: false,
+    verbosity: false,
+    developerRole: false,
+  },
+  o1: { reasoningEffort: true, verbosity: false },
+  o3: { reasoningEffort: true, verbosity: false },
+  "o3-mini": { reasoningEffort: true, verbosity: false },
+  "o3-pro": { reasoningEffort: true, verbosity: false },
+  "o4-mini": { reasoningEffort: true, verbosity: false },
+  "codex-mini": { reasoningEffort: true, verbosity: false },
+  "gpt-5": { reasoningEffort: true, verbosity: true },
+  "gpt-5-mini": { reasoningEffort: true, verbosity: true },
+  "gpt-5-nano": { reasoningEffort: true, verbosity: true },
+  "gpt-5-codex": { reasoningEffort: true, verbosity: true },
+  "gpt-5-pro": { reasoningEffort: true, verbosity: true },
+  "gpt-5.1": { reasoningEffort: true, verbosity: true },
+  "gpt-5.1-codex": { reasoningEffort: true, verbosity: true },
+  "gpt-5.1-codex-mini": { reasoningEffort: true, verbosity: true },
+  "gpt-5.1-codex-max": { reasoningEffort: true, verbosity: true },
+  "gpt-5.2": { reasoningEffort: true, verbosity: true },
+  "gpt-5.2-codex": { reasoningEffort: true, verbosity: true },
+};
+
+const REASONING_UNSUPPORTED_PARAMS = [
+  "temperature",
+  "top_p",
+  "presence_penalty",
+  "frequency_penalty",
+  "logprobs",
+  "top_logprobs",
+  "logit_bias",
+] as const;
+
 export const gpt4o = modelRef({
   name: "azure-openai/gpt-4o",
   info: {
@@ -107,9 +292,11 @@ export const gpt4o = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -123,14 +310,50 @@ export const gpt4oMini = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
   configSchema: OpenAiConfigSchema,
 });
 
+export const gpt4oAudioPreview = modelRef({
+  name: "azure-openai/gpt-4o-audio-preview",
+  info: {
+    versions: ["gpt-4o-audio-preview"],
+    label: "OpenAI - GPT-4o Audio Preview",
+    supports: {
+      multiturn: true,
+      tools: true,
+      toolChoice: true,
+      media: true,
+      systemRole: true,
+      output: ["text"],
+    },
+  },
+  configSchema: AudioConfigSchema,
+});
+
+export const gpt4oMiniAudioPreview = modelRef({
+  name: "azure-openai/gpt-4o-mini-audio-preview",
+  info: {
+    versions: ["gpt-4o-mini-audio-preview"],
+    label: "OpenAI - GPT-4o Mini Audio Preview",
+    supports: {
+      multiturn: true,
+      tools: true,
+      toolChoice: true,
+      media: true,
+      systemRole: true,
+      output: ["text"],
+    },
+  },
+  configSchema: AudioConfigSchema,
+});
+
 export const gpt4 = modelRef({
   name: "azure-openai/gpt-4",
   info: {
@@ -139,6 +362,7 @@ export const gpt4 = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
@@ -155,9 +379,11 @@ export const gpt45 = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -171,12 +397,14 @@ export const gpt5 = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt5Mini = modelRef({
@@ -187,12 +415,14 @@ export const gpt5Mini = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt5Nano = modelRef({
@@ -203,12 +433,14 @@ export const gpt5Nano = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt5Chat = modelRef({
@@ -219,6 +451,7 @@ export const gpt5Chat = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text"],
@@ -235,12 +468,14 @@ export const gpt5Codex = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt5Pro = modelRef({
@@ -251,12 +486,14 @@ export const gpt5Pro = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt51 = modelRef({
@@ -267,12 +504,14 @@ export const gpt51 = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt51Chat = modelRef({
@@ -283,9 +522,11 @@ export const gpt51Chat = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: false,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -299,12 +540,14 @@ export const gpt51Codex = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt51CodexMini = modelRef({
@@ -315,12 +558,14 @@ export const gpt51CodexMini = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt51CodexMax = modelRef({
@@ -331,12 +576,14 @@ export const gpt51CodexMax = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt52 = modelRef({
@@ -347,12 +594,14 @@ export const gpt52 = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt52Chat = modelRef({
@@ -363,9 +612,11 @@ export const gpt52Chat = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: false,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -379,12 +630,14 @@ export const gpt52Codex = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gptOss120b = modelRef({
@@ -395,6 +648,7 @@ export const gptOss120b = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: false,
       systemRole: true,
       output: ["text", "json"],
@@ -411,6 +665,7 @@ export const gptOss20b = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: false,
       systemRole: true,
       output: ["text", "json"],
@@ -427,9 +682,11 @@ export const gpt41 = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -443,9 +700,11 @@ export const gpt41Mini = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -459,9 +718,11 @@ export const gpt41Nano = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text", "json"],
+      constrained: "all",
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -480,7 +741,7 @@ export const o1 = modelRef({
       output: ["text"],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const o1Mini = modelRef({
@@ -491,12 +752,13 @@ export const o1Mini = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: false,
-      systemRole: true,
+      systemRole: false,
       output: ["text"],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const o1Preview = modelRef({
@@ -507,12 +769,13 @@ export const o1Preview = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
-      systemRole: true,
+      systemRole: false,
       output: ["text"],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const o3 = modelRef({
@@ -523,12 +786,13 @@ export const o3 = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text"],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const o4Mini = modelRef({
@@ -539,12 +803,13 @@ export const o4Mini = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text"],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const o3Mini = modelRef({
@@ -555,12 +820,13 @@ export const o3Mini = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: false,
       systemRole: true,
       output: ["text"],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const o3Pro = modelRef({
@@ -571,12 +837,13 @@ export const o3Pro = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text"],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const codexMini = modelRef({
@@ -587,12 +854,13 @@ export const codexMini = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: true,
       systemRole: true,
       output: ["text"],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: ReasoningConfigSchema,
 });
 
 export const gpt35Turbo = modelRef({
@@ -603,6 +871,7 @@ export const gpt35Turbo = modelRef({
     supports: {
       multiturn: true,
       tools: true,
+      toolChoice: true,
       media: false,
       systemRole: true,
       output: ["json", "text"],
@@ -626,6 +895,8 @@ export const SUPPORTED_GPT_MODELS = {
   "gpt-4": gpt4,
   "gpt-4o": gpt4o,
   "gpt-4o-mini": gpt4oMini,
+  "gpt-4o-audio-preview": gpt4oAudioPreview,
+  "gpt-4o-mini-audio-preview": gpt4oMiniAudioPreview,
   "gpt-4.5": gpt45,
   "gpt-5": gpt5,
   "gpt-5-mini": gpt5Mini,
@@ -661,7 +932,15 @@ function toOpenAIRole(role: Role): ChatCompletionRole {
   }
 }
 
-function toOpenAiTool(tool: ToolDefinition): ChatCompletionTool {
+/**
+ * Maps a Genkit tool to a function tool. With `strict`, the input schema is
+ * rewritten for strict function calling so the model's arguments always match
+ * it.
+ */
+export function toOpenAiTool(
+  tool: ToolDefinition,
+  strict = false,
+): ChatCompletionFunctionTool {
   let parameters;
   if (tool.inputSchema !== null) {
     if (typeof tool.inputSchema === "string") {
@@ -688,11 +967,41 @@ function toOpenAiTool(tool: ToolDefinition): ChatCompletionTool {
     type: "function",
     function: {
       name: tool.name,
-      parameters: parameters,
+      description: tool.description || undefined,
+      parameters:
+        strict && parameters
+          ? toStrictJsonSchema(parameters, `tools.${tool.name}`)
+          : parameters,
+      strict: strict || undefined,
     },
   };
 }
 
+/**
+ * Maps the `toolChoice` generate option, or the `forcedTool` config, to the
+ * `tool_choice` request parameter.
+ */
+export function toOpenAiToolChoice(
+  request: GenerateRequest,
+): ChatCompletionToolChoiceOption | undefined {
+  const forcedTool = request.config?.forcedTool;
+  if (!forcedTool) return request.toolChoice;
+  if (!request.tools?.some((tool) => tool.name === forcedTool)) {
+    throw new Error(
+      `forcedTool '${forcedTool}' is not one of the tools of the request.`,
+    );
+  }
+  return { type: "function", function: { name: forcedTool } };
+}
+
+const AUDIO_INPUT_FORMATS: Record<string, "wav" | "mp3"> = {
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav",
+  "audio/mp3": "mp3",
+  "audio/mpeg": "mp3",
+};
+
 export function toOpenAiTextAndMedia(
   part: Part,
   visualDetailLevel: VisualDetailLevel,
@@ -703,11 +1012,43 @@ export function toOpenAiTextAndMedia(
       text: part.text,
     };
   } else if (part.media) {
+    const contentType = mediaContentType(part.media);
+    // Media without a content type is assumed to be an image URL.
+    if (!contentType || contentType.startsWith("image/")) {
+      return {
+        type: "image_url",
+        image_url: {
+          url: part.media.url,
+          detail: visualDetailLevel,
+        },
+      };
+    }
+    if (contentType.startsWith("audio/")) {
+      const format = AUDIO_INPUT_FORMATS[contentType];
+      const data = dataUrlData(part.media.url);
+      if (!format || !data) {
+        throw new Error(
+          `Unsupported audio input (${contentType}): audio must be a base64 data URL in wav or mp3 format.`,
+        );
+      }
+      return {
+        type: "input_audio",
+        input_audio: { data, format },
+      };
+    }
+    if (contentType.startsWith("video/")) {
+      throw new Error(`Unsupported media input: ${contentType}.`);
+    }
+    if (!dataUrlData(part.media.url)) {
+      throw new Error(
+        `Unsupported document input (${contentType}): documents must be base64 data URLs.`,
+      );
+    }
     return {
-      type: "image_url",
-      image_url: {
-        url: part.media.url,
-        detail: visualDetailLevel,
+      type: "file",
+      file: {
+        file_data: part.media.url,
+        filename: mediaFilename(part, contentType),
       },
     };
   }
@@ -716,14 +1057,48 @@ export function toOpenAiTextAndMedia(
   );
 }
 
+/**
+ * Text sent for a tool response: its output, or the text of its multipart
+ * content when it has no output.
+ */
+function toolResponseText(part: ToolResponsePart): string {
+  const { output, content } = part.toolResponse;
+  if (output === undefined && content) {
+    return new Message({ role: "tool", content }).text;
+  }
+  return typeof output === "string" ? output : JSON.stringify(output);
+}
+
+/**
+ * Maps Genkit messages to chat messages. `systemRole` is the role system
+ * messages are sent with; reasoning models expect `developer`.
+ */
 export function toOpenAiMessages(
   messages: MessageData[],
   visualDetailLevel: VisualDetailLevel = "auto",
+  systemRole: "system" | "developer" = "system",
 ): ChatCompletionMessageParam[] {
   const openAiMsgs: ChatCompletionMessageParam[] = [];
+  // Only user messages can carry media, so media from other roles (e.g. a
+  // screenshot returned by a tool) is forwarded in a user message after
+  // them. Tool responses must directly follow the tool calls though, so the
+  // media of both waits until the last tool response.
+  let media: Part[] = [];
+  const flushMedia = () => {
+    if (!media.length) return;
+    openAiMsgs.push({
+      role: "user",
+      content: media.map((part) =>
+        toOpenAiTextAndMedia(part, visualDetailLevel),
+      ),
+    });
+    media = [];
+  };
   for (const message of messages) {
     const msg = new Message(message);
     const role = toOpenAIRole(message.role);
+    if (role !== "tool") flushMedia();
+    let awaitsToolResponses = false;
     switch (role) {
       case "user":
         openAiMsgs.push({
@@ -735,9 +1110,10 @@ export function toOpenAiMessages(
         break;
       case "system":
         openAiMsgs.push({
-          role: role,
+          role: systemRole,
           content: msg.text,
         });
+        media.push(...msg.content.filter((part) => part.media));
         break;
       case "assistant": {
         const toolCalls: ChatCompletionMessageToolCall[] = msg.content
@@ -757,17 +1133,32 @@ export function toOpenAiMessages(
               },
             };
           });
-        if (toolCalls?.length > 0) {
-          openAiMsgs.push({
-            role: role,
-            tool_calls: toolCalls,
-          });
-        } else {
-          openAiMsgs.push({
-            role: role,
-            content: msg.text,
-          });
+        const textParts: ChatCompletionContentPartText[] = msg.content
+          .filter((part) => part.text)
+          .map((part) => ({ type: "text", text: part.text! }));
+        const assistantMsg: ChatCompletionAssistantMessageParam = { role };
+        // Audio generated by the model is referenced by id, and replaces
+        // its transcript.
+        const audioId = msg.content.find(
+          (part) => part.media && typeof part.metadata?.audioId === "string",
+        )?.metadata?.audioId as string | undefined;
+        if (audioId) {
+          assistantMsg.audio = { id: audioId };
+        } else if (textParts.length > 1) {
+          assistantMsg.content = textParts;
+        } else if (textParts.length || !toolCalls.length) {
+          assistantMsg.content = msg.text;
         }
+        if (toolCalls.length > 0) {
+          assistantMsg.tool_calls = toolCalls;
+          awaitsToolResponses = true;
+        }
+        openAiMsgs.push(assistantMsg);
+        media.push(
+          ...msg.content.filter(
+            (part) => part.media && part.metadata?.audioId === undefined,
+          ),
+        );
         break;
       }
       case "tool": {
@@ -776,11 +1167,11 @@ export function toOpenAiMessages(
           openAiMsgs.push({
             role: role,
             tool_call_id: part.toolResponse.ref || "",
-            content:
-              typeof part.toolResponse.output === "string"
-                ? part.toolResponse.output
-                : JSON.stringify(part.toolResponse.output),
+            content: toolResponseText(part),
           });
+          media.push(
+            ...(part.toolResponse.content ?? []).filter((p) => p.media),
+          );
         });
         break;
       }
@@ -788,7 +1179,9 @@ export function toOpenAiMessages(
         throw new Error("unrecognized role");
       }
     }
+    if (role !== "tool" && !awaitsToolResponses) flushMedia();
   }
+  flushMedia();
   return openAiMsgs;
 }
 
@@ -805,11 +1198,9 @@ const finishReasonMap: Record<
 };
 
 function fromOpenAiToolCall(
-  toolCall:
-    | ChatCompletionMessageToolCall
-    | ChatCompletionChunk.Choice.Delta.ToolCall,
-  choice: ChatCompletion.Choice | ChatCompletionChunk.Choice,
-) {
+  toolCall: ChatCompletionMessageToolCall,
+  tools?: ToolDefinition[],
+): ToolRequestPart {
   // Check if this is a function tool call (not custom)
   if (
     !(
@@ -823,83 +1214,282 @@ function fromOpenAiToolCall(
     );
   }
   const f = toolCall.function;
-  if (choice.finish_reason === "tool_calls") {
-    return {
-      toolRequest: {
-        name: f.name,
-        ref: toolCall.id,
-        input: f.arguments ? JSON.parse(f.arguments) : f.arguments,
-      },
-    };
-  } else {
-    return {
-      toolRequest: {
-        name: f.name,
-        ref: toolCall.id,
-        input: "",
-      },
-    };
+  return {
+    toolRequest: {
+      name: f.name,
+      ref: toolCall.id,
+      input: parseToolInput(f.name, f.arguments, tools),
+    },
+  };
+}
+
+/**
+ * Log probability of an output token, with the most likely alternatives at
+ * its position when `topLogProbs` is set. `Math.exp(logProb)` is the
+ * probability of the token.
+ */
+export interface TokenLogProb {
+  token: string;
+  logProb: number;
+  bytes?: number[];
+  topLogProbs?: Array<{ token: string; logProb: number; bytes?: number[] }>;
+}
+
+/**
+ * Log probabilities in the message `metadata` of candidates and in the
+ * `custom` data of streamed chunks.
+ */
+export interface CandidateLogProbs {
+  logProbs?: TokenLogProb[];
+  refusalLogProbs?: TokenLogProb[];
+}
+
+function fromOpenAiTokenLogProb({
+  token,
+  logprob,
+  bytes,
+  top_logprobs,
+}: ChatCompletionTokenLogprob): TokenLogProb {
+  return {
+    token,
+    logProb: logprob,
+    bytes: bytes ?? undefined,
+    topLogProbs: top_logprobs?.length
+      ? top_logprobs.map((top) => ({
+          token: top.token,
+          logProb: top.logprob,
+          bytes: top.bytes ?? undefined,
+        }))
+      : undefined,
+  };
+}
+
+/**
+ * Maps the log probabilities of a choice or chunk choice, or returns
+ * `undefined` when they were not requested.
+ */
+function fromOpenAiLogProbs(
+  logprobs?: ChatCompletion.Choice.Logprobs | null,
+): CandidateLogProbs | undefined {
+  if (!logprobs?.content?.length && !logprobs?.refusal?.length) {
+    return undefined;
   }
+  return {
+    logProbs: logprobs.content?.length
+      ? logprobs.content.map(fromOpenAiTokenLogProb)
+      : undefined,
+    refusalLogProbs: logprobs.refusal?.length
+      ? logprobs.refusal.map(fromOpenAiTokenLogProb)
+      : undefined,
+  };
 }
 
+/**
+ * Maps a spoken response to a `media` part carrying the audio id, so it can
+ * be referenced in later turns, followed by its transcript.
+ */
+function fromOpenAiAudio(audio: ChatCompletionAudio, format = "wav"): Part[] {
+  const contentType = AUDIO_OUTPUT_CONTENT_TYPES[format];
+  return [
+    {
+      media: {
+        url: `data:${contentType};base64,${audio.data}`,
+        contentType,
+      },
+      metadata: { audioId: audio.id, expiresAt: audio.expires_at },
+    },
+    { text: audio.transcript },
+  ];
+}
+
+/**
+ * Maps a choice of a completion. Azure content filter annotations of the
+ * choice and of the prompt are kept in the candidate `custom` data and the
+ * message `metadata`, and the filtered categories of a blocked choice are named in its `finishMessage`.
+ */
 function fromOpenAiChoice(
   choice: ChatCompletion["choices"][0],
   jsonMode = false,
+  audioFormat?: string,
+  promptFilterResults?: ContentFilterResults,
+  outputSchema?: JSONSchema,
+  tools?: ToolDefinition[],
 ): CandidateData {
-  const toolRequestParts = choice.message.tool_calls?.map(
-    (toolCall: ChatCompletionMessageToolCall) =>
-      fromOpenAiToolCall(toolCall, choice),
+  const toolRequestParts = choice.message.tool_calls?.map((toolCall) =>
+    fromOpenAiToolCall(toolCall, tools),
+  );
+  const finishReason = finishReasonMap[choice.finish_reason] || "other";
+  // Content filter annotations are Azure extensions of the choice.
+  const contentFilterResults = fromContentFilterResults(
+    (choice as { content_filter_results?: unknown }).content_filter_results,
   );
+  const categories = filteredCategories(contentFilterResults);
+  // On Your Data answers carry their grounding context in the message.
+  const context = fromDataSourceContext(
+    (choice.message as { context?: unknown }).context,
+  );
+  // The filter results are also copied into the message metadata, since
+  // `generate` only returns the message of a candidate.
+  const metadata = {
+    ...context,
+    ...fromOpenAiLogProbs(choice.logprobs),
+    ...(contentFilterResults && { contentFilterResults }),
+    ...(promptFilterResults && { promptFilterResults }),
+  };
   return {
     index: choice.index,
-    finishReason: finishReasonMap[choice.finish_reason] || "other",
+    finishReason,
+    finishMessage:
+      finishReason === "blocked"
+        ? `Output was blocked by the content filter${categories ? `: ${categories}` : ""}.`
+        : undefined,
     message: {
       role: "model",
       content: toolRequestParts
-        ? // Note: Not sure why I have to cast here exactly.
-          // Otherwise it thinks toolRequest must be 'undefined' if provided
-          (toolRequestParts as ToolRequestPart[])
-        : [
-            jsonMode
-              ? { data: JSON.parse(choice.message.content!) }
-              : { text: choice.message.content! },
-          ],
+        ? toolRequestParts
+        : choice.message.audio
+          ? fromOpenAiAudio(choice.message.audio, audioFormat)
+          : [
+              jsonMode && finishReason !== "blocked"
+                ? {
+                    // Optional properties come back as null in strict mode.
+                    data: removeOptionalNulls(
+                      parseJsonOutput(choice.message.content!, finishReason),
+                      outputSchema ?? {},
+                    ),
+                  }
+                : { text: choice.message.content ?? "" },
+            ],
+      metadata: Object.keys(metadata).length ? metadata : undefined,
     },
-    custom: {},
+    custom: { contentFilterResults, promptFilterResults },
   };
 }
 
+/**
+ * Maps a choice like `fromOpenAiChoice`, except that the invalid JSON output
+ * of a candidate other than the first is returned as text with an `other`
+ * finish reason, so one truncated candidate does not fail the others.
+ */
+function fromOpenAiCandidate(
+  ...args: Parameters<typeof fromOpenAiChoice>
+): CandidateData {
+  const [choice] = args;
+  try {
+    return fromOpenAiChoice(...args);
+  } catch (e) {
+    if (choice.index === 0 || !(e instanceof InvalidJsonOutputError)) throw e;
+    return {
+      index: choice.index,
+      finishReason: "other",
+      finishMessage: e.message,
+      message: { role: "model", content: [{ text: e.text }] },
+    };
+  }
+}
+
+/**
+ * Maps a streamed chunk choice to the parts to emit. Text is emitted as it
+ * arrives, while tool calls are buffered in `toolCalls` and only emitted once
+ * the choice finishes and their arguments are complete. With `previews`,
+ * the tool calls still being streamed are also emitted as partial tool
+ * requests. With `json`, each text delta is followed by a `data` part holding
+ * the JSON output parsed so far.
+ */
 function fromOpenAiChunkChoice(
   choice: ChatCompletionChunk["choices"][0],
-  jsonMode = false,
-): CandidateData {
-  const toolRequestParts = choice.delta.tool_calls?.map((toolCall) =>
-    fromOpenAiToolCall(toolCall as ChatCompletionMessageToolCall, choice),
+  toolCalls: ToolCallAccumulator,
+  previews = false,
+  json?: PartialJsonAccumulator,
+  tools?: ToolDefinition[],
+): Part[] {
+  const content: Part[] = [];
+  // Audio deltas are not part of the SDK's chunk type.
+  const audio = (choice.delta as { audio?: Partial<ChatCompletionAudio> })
+    ?.audio;
+  if (audio?.data) {
+    content.push({
+      media: {
+        url: `data:${AUDIO_OUTPUT_CONTENT_TYPES.pcm16};base64,${audio.data}`,
+        contentType: AUDIO_OUTPUT_CONTENT_TYPES.pcm16,
+      },
+    });
+  }
+  if (audio?.transcript) {
+    content.push({ text: audio.transcript });
+  }
+  if (choice.delta?.content) {
+    content.push({ text: choice.delta.content });
+    const data = json?.add(choice.index, choice.delta.content);
+    if (data !== undefined) {
+      content.push({ data });
+    }
+  }
+  const hasToolCalls = toolCalls.add(choice);
+  if (choice.finish_reason) {
+    content.push(
+      ...toolCalls
+        .flush(choice.index)
+        .map((toolCall) => fromOpenAiToolCall(toolCall, tools)),
+    );
+  } else if (previews && hasToolCalls) {
+    content.push(...toolCalls.preview(choice.index, tools));
+  }
+  return content;
+}
+
+/**
+ * Moves the content of the system messages to the start of the first user
+ * message, for models that accept no system instructions.
+ */
+function foldSystemMessages(messages: MessageData[]): MessageData[] {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .flatMap((m) => m.content);
+  if (!system.length) return messages;
+  const rest = messages.filter((m) => m.role !== "system");
+  const first = rest.findIndex((m) => m.role === "user");
+  if (first < 0) return [{ role: "user", content: system }, ...rest];
+  return rest.map((m, i) =>
+    i === first ? { ...m, content: [...system, ...m.content] } : m,
   );
-  return {
-    index: choice.index,
-    finishReason: choice.finish_reason
-      ? finishReasonMap[choice.finish_reason] || "other"
-      : "unknown",
-    message: {
-      role: "model",
-      content: toolRequestParts
-        ? // Note: Not sure why I have to cast here exactly.
-          // Otherwise it thinks toolRequest must be 'undefined' if provided
-          (toolRequestParts as ToolRequestPart[])
-        : [
-            jsonMode
-              ? { data: JSON.parse(choice.delta.content!) }
-              : { text: choice.delta.content! },
-          ],
-    },
-    custom: {},
-  };
+}
+
+/**
+ * Adds the instructions of an output schema to the system message, or else
+ * to the last user message, as Genkit does for models without constrained
+ * output.
+ */
+function injectOutputInstructions(
+  messages: ChatCompletionMessageParam[],
+  schema: JSONSchema,
+) {
+  const text = outputInstructions(schema);
+  let index = messages.findIndex(
+    (m) => m.role === "system" || m.role === "developer",
+  );
+  if (index < 0) index = messages.map((m) => m.role).lastIndexOf("user");
+  if (index < 0) {
+    messages.push({ role: "user", content: text });
+    return;
+  }
+  const message = messages[index] as ChatCompletionUserMessageParam;
+  message.content =
+    typeof message.content === "string"
+      ? [
+          { type: "text", text: message.content },
+          { type: "text", text },
+        ]
+      : [...message.content, { type: "text", text }];
 }
 
 export function toOpenAiRequestBody(
   modelName: string,
   request: GenerateRequest,
+  deployment?: string,
+  model: ModelReference<z.ZodTypeAny> = SUPPORTED_GPT_MODELS[
+    modelName as keyof typeof SUPPORTED_GPT_MODELS
+  ],
 ) {
   type JsonValue =
     | string
@@ -923,38 +1513,119 @@ export function toOpenAiRequestBody(
       {},
     );
   };
-  const model =
-    SUPPORTED_GPT_MODELS[modelName as keyof typeof SUPPORTED_GPT_MODELS];
   if (!model) throw new Error(`Unsupported model: ${modelName}`);
+  if (request.tools?.length && model.info?.supports?.tools === false) {
+    throw new Error(`Model ${modelName} does not support tools.`);
+  }
+  if (
+    model.info?.supports?.media === false &&
+    request.messages.some((m) => m.content.some((part) => part.media))
+  ) {
+    throw new Error(
+      `Model ${modelName} does not support media input. Use a multimodal model such as gpt-4o, or declare supports.media on custom models.`,
+    );
+  }
+  const reasoning =
+    REASONING_MODELS[modelName] ??
+    (model.configSchema === ReasoningConfigSchema
+      ? { reasoningEffort: true, verbosity: true }
+      : undefined);
   const openAiMessages = toOpenAiMessages(
-    request.messages,
+    reasoning?.developerRole === false
+      ? foldSystemMessages(request.messages)
+      : request.messages,
     request.config?.visualDetailLevel,
+    reasoning ? "developer" : "system",
   );
-  const mappedModelName = request.config?.version || modelName;
+  const mappedModelName = request.config?.version || deployment || modelName;
   const body = {
     messages: openAiMessages,
-    tools: request.tools?.map(toOpenAiTool),
+    tools: request.tools?.map((tool) =>
+      toOpenAiTool(tool, request.config?.strictTools),
+    ),
     model: mappedModelName,
     max_tokens: request.config?.maxOutputTokens,
     temperature: request.config?.temperature,
     top_p: request.config?.topP,
-    n: request.candidates,
+    n: request.candidates ?? request.config?.candidateCount,
     stop: request.config?.stopSequences,
+    logprobs: request.config?.logProbs || !!request.config?.topLogProbs,
+    top_logprobs: request.config?.topLogProbs,
     ...mapToSnakeCase(request.config?.custom || {}),
   } as ChatCompletionCreateParamsNonStreaming;
 
+  if (request.config?.prediction) {
+    const prediction: string | Array<{ text: string }> =
+      request.config.prediction;
+    body.prediction = {
+      type: "content",
+      content:
+        typeof prediction === "string"
+          ? prediction
+          : prediction.map(({ text }) => ({ type: "text", text })),
+    };
+  }
+  if (request.config?.dataSources?.length) {
+    // An Azure extension of the request body.
+    (body as { data_sources?: unknown }).data_sources = toDataSources(
+      request.config.dataSources,
+    );
+  }
+  if (request.config?.modalities) {
+    body.modalities = request.config.modalities;
+    if (request.config.modalities.includes("audio")) {
+      body.audio = request.config.audio ?? { voice: "alloy", format: "wav" };
+    }
+  }
+  if (reasoning) {
+    body.max_completion_tokens =
+      request.config?.maxCompletionTokens ?? request.config?.maxOutputTokens;
+    delete body.max_tokens;
+    for (const param of REASONING_UNSUPPORTED_PARAMS) {
+      delete body[param];
+    }
+    if (reasoning.reasoningEffort && request.config?.reasoningEffort) {
+      body.reasoning_effort = request.config.reasoningEffort;
+    }
+    if (reasoning.verbosity && request.config?.verbosity) {
+      body.verbosity = request.config.verbosity;
+    }
+  }
+
   const response_format = request.output?.format;
+  const constrained = model.info?.supports?.constrained;
   if (
     response_format &&
-    MODELS_SUPPORTING_OPENAI_RESPONSE_FORMAT.includes(mappedModelName)
+    (!(modelName in SUPPORTED_GPT_MODELS) ||
+      MODELS_SUPPORTING_OPENAI_RESPONSE_FORMAT.includes(
+        deployment ? modelName : mappedModelName,
+      ))
   ) {
     if (
       response_format === "json" &&
       model.info?.supports?.output?.includes("json")
     ) {
-      body.response_format = {
-        type: "json_object",
-      };
+      const outputSchema =
+        request.output?.schema &&
+        request.output.constrained !== false &&
+        (constrained === "all" ||
+          (constrained === "no-tools" && !request.tools?.length))
+          ? request.output.schema
+          : undefined;
+      const schema = outputSchema && tryStrictJsonSchema(outputSchema);
+      // Schemas strict mode cannot express fall back to plain JSON mode,
+      // with the schema in the prompt since Genkit left it to the model.
+      if (outputSchema && !schema) {
+        injectOutputInstructions(body.messages, outputSchema);
+      }
+      body.response_format = schema
+        ? {
+            type: "json_schema",
+            json_schema: { name: "output", schema, strict: true },
+          }
+        : {
+            type: "json_object",
+          };
     } else if (
       response_format === "text" &&
       model.info?.supports?.output?.includes("text")
@@ -977,63 +1648,345 @@ export function toOpenAiRequestBody(
     )
       delete body[typedKey];
   }
+  const toolChoice = toOpenAiToolChoice(request);
+  if (body.tools && toolChoice) {
+    body.tool_choice = toolChoice;
+  }
+  // Set after the cleanup above, which would drop `false`.
+  if (body.tools && request.config?.parallelToolCalls !== undefined) {
+    body.parallel_tool_calls = request.config.parallelToolCalls;
+  }
   return body;
 }
 
 /**
- *
+ * Maps chat completions token usage. Cached and reasoning tokens use the
+ * matching Genkit fields, and audio and predicted output tokens are reported
+ * under `custom`.
  */
-export function gptModel(ai: Genkit, name: string, client: AzureOpenAI) {
-  const modelId = `azure-openai/${name}`;
-  const model = SUPPORTED_GPT_MODELS[name as keyof typeof SUPPORTED_GPT_MODELS];
-  if (!model) throw new Error(`Unsupported model: ${name}`);
+export function fromOpenAiUsage(usage?: CompletionUsage): GenerationUsage {
+  const custom: Record<string, number> = {};
+  const details = {
+    inputAudioTokens: usage?.prompt_tokens_details?.audio_tokens,
+    outputAudioTokens: usage?.completion_tokens_details?.audio_tokens,
+    acceptedPredictionTokens:
+      usage?.completion_tokens_details?.accepted_prediction_tokens,
+    rejectedPredictionTokens:
+      usage?.completion_tokens_details?.rejected_prediction_tokens,
+  };
+  for (const [key, value] of Object.entries(details)) {
+    if (value) custom[key] = value;
+  }
+  return {
+    inputTokens: usage?.prompt_tokens,
+    outputTokens: usage?.completion_tokens,
+    totalTokens: usage?.total_tokens,
+    thoughtsTokens: usage?.completion_tokens_details?.reasoning_tokens,
+    cachedContentTokens: usage?.prompt_tokens_details?.cached_tokens,
+    custom: Object.keys(custom).length ? custom : undefined,
+  };
+}
+
+/**
+ * Options for registering a chat completions deployment that is not one of
+ * the built-in GPT models, such as a fine-tuned deployment or an Azure AI
+ * Foundry catalog model (Phi, Mistral, Llama, DeepSeek...).
+ */
+export interface AzureModelOptions {
+  /**
+   * Model name. The model is registered as `azure-openai/<name>`.
+   */
+  name: string;
+
+  /**
+   * Azure deployment that serves the model.
+   * @default name
+   */
+  deployment?: string;
+
+  /**
+   * Name of the Azure resource (see `PluginOptions.resources`) that serves
+   * the model. When set, the model is registered as
+   * `azure-openai/<resource>/<name>`.
+   */
+  resource?: string;
 
+  /**
+   * Human readable label shown in the Genkit developer UI.
+   */
+  label?: string;
+
+  /**
+   * Capabilities of the model. Unset capabilities fall back to a text-only
+   * multiturn chat model with tools and system role support.
+   */
+  supports?: ModelInfo["supports"];
+
+  /**
+   * Config schema for the model.
+   * @default OpenAiConfigSchema
+   */
+  configSchema?: z.ZodTypeAny;
+}
+
+/**
+ * Builds the model reference of a custom model, filling in defaults for the
+ * capabilities and config schema it does not declare.
+ */
+export function azureModelRef(
+  options: AzureModelOptions,
+  defaultConfigSchema: z.ZodTypeAny,
+): ModelReference<z.ZodTypeAny> {
+  return modelRef({
+    name: modelId(options.name, options.resource),
+    info: {
+      label: options.label ?? `Azure OpenAI - ${options.name}`,
+      supports: {
+        multiturn: true,
+        tools: true,
+        toolChoice: true,
+        media: false,
+        systemRole: true,
+        output: ["text"],
+        ...options.supports,
+      },
+    },
+    configSchema: options.configSchema ?? defaultConfigSchema,
+  });
+}
+
+function defineChatModel(
+  ai: Genkit,
+  name: string,
+  model: ModelReference<z.ZodTypeAny>,
+  router: DeploymentRouter,
+  resource?: string,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
+) {
   return ai.defineModel(
     {
-      name: modelId,
+      name: modelId(name, resource),
       ...model.info,
-      configSchema:
-        SUPPORTED_GPT_MODELS[name as keyof typeof SUPPORTED_GPT_MODELS]
-          .configSchema,
+      configSchema: model.configSchema,
+      use: modelMiddleware(name, costs, retry),
     },
     async (
       request,
       streamingCallback?: StreamingCallback<GenerateResponseChunkData>,
     ) => {
-      let response: ChatCompletion;
-      const body = toOpenAiRequestBody(name, request);
-      if (streamingCallback) {
-        const stream = client.chat.completions.stream({
-          ...body,
-          stream: true,
-          stream_options: {
-            include_usage: true,
-          },
-        });
-        for await (const chunk of stream) {
-          chunk.choices?.forEach((chunk) => {
-            const c = fromOpenAiChunkChoice(chunk);
-            streamingCallback({
-              index: c.index,
-              content: c.message.content,
+      let streamed = false;
+      const run = router.run<ChatCompletion>(
+        async ({ client, deployment, rateLimiters }) => {
+          const body = toOpenAiRequestBody(name, request, deployment, model);
+          const limiter = rateLimiters?.get(body.model);
+          const tokens = limiter ? estimateTokens(body) : 0;
+          await limiter?.acquire(tokens);
+          if (!streamingCallback) {
+            const { data, response } = await client.chat.completions
+              .create(body)
+              .withResponse()
+              .catch((e) => {
+                if (e instanceof APIError) {
+                  limiter?.reconcile(tokens, undefined, e.headers);
+                }
+                throw e;
+              });
+            limiter?.reconcile(
+              tokens,
+              data.usage?.total_tokens,
+              response.headers,
+            );
+            return data;
+          }
+          try {
+            const stream = client.chat.completions.stream({
+              ...body,
+              stream: true,
+              stream_options: {
+                include_usage: true,
+              },
             });
-          });
-        }
-        response = await stream.finalChatCompletion();
-      } else {
-        response = await client.chat.completions.create(body);
-      }
+            const toolCalls = new ToolCallAccumulator();
+            const previews = !!request.config?.toolCallPreviews;
+            const json =
+              request.output?.format === "json"
+                ? new PartialJsonAccumulator()
+                : undefined;
+            for await (const chunk of stream) {
+              chunk.choices?.forEach((choice) => {
+                streamed = true;
+                // Genkit sets the index of each chunk to that of the message
+                // being generated, which would join the chunks of all the
+                // candidates, so only the first one is streamed. The others are
+                // buffered by the stream and returned at the end.
+                if (choice.index !== 0) return;
+                const content = fromOpenAiChunkChoice(
+                  choice,
+                  toolCalls,
+                  previews,
+                  json,
+                  request.tools,
+                );
+                const logProbs = fromOpenAiLogProbs(choice.logprobs);
+                if (content.length || logProbs) {
+                  streamingCallback({
+                    index: choice.index,
+                    content,
+                    custom: logProbs,
+                  });
+                }
+              });
+            }
+            for (const index of toolCalls.pendingChoices()) {
+              streamingCallback({
+                index,
+                content: toolCalls
+                  .flush(index)
+                  .map((toolCall) =>
+                    fromOpenAiToolCall(toolCall, request.tools),
+                  ),
+              });
+            }
+            const completion = await stream.finalChatCompletion();
+            limiter?.reconcile(tokens, completion.usage?.total_tokens);
+            return completion;
+          } catch (e) {
+            // Streams failing when created or midway, e.g. when throttled,
+            // sync with the quota headers of the error like failed calls.
+            if (e instanceof APIError) {
+              limiter?.reconcile(tokens, undefined, e.headers);
+            }
+            throw e;
+          }
+        },
+        () => !streamed,
+      );
+      const {
+        result: response,
+        target,
+        attempts,
+      } = await run.catch((e) => {
+        throw fromContentFilterError(e);
+      });
+      const promptFilterResults = fromPromptFilterResults(
+        (response as { prompt_filter_results?: unknown }).prompt_filter_results,
+      );
       return {
         candidates: response.choices.map((c: ChatCompletion["choices"][0]) =>
-          fromOpenAiChoice(c, request.output?.format === "json"),
+          fromOpenAiCandidate(
+            c,
+            request.output?.format === "json",
+            request.config?.audio?.format,
+            promptFilterResults,
+            request.output?.schema,
+            request.tools,
+          ),
         ),
-        usage: {
-          inputTokens: response.usage?.prompt_tokens,
-          outputTokens: response.usage?.completion_tokens,
-          totalTokens: response.usage?.total_tokens,
-        },
-        custom: response,
+        usage: fromOpenAiUsage(response.usage),
+        custom:
+          router.targets.length > 1
+            ? {
+                ...response,
+                routing: {
+                  resource: target.resource,
+                  deployment: target.deployment ?? name,
+                  attempts,
+                },
+              }
+            : response,
       };
     },
   );
 }
+
+/**
+ * Defines a chat completions model for one of the supported GPT models.
+ * When `deployment` is set, requests are routed to that Azure deployment
+ * instead of one named after the model. When `resource` is set, the model is
+ * registered as `azure-openai/<resource>/<name>`. Calls wait for the quota
+ * of their deployment when it has one of the `rateLimiters`.
+ */
+export function gptModel(
+  ai: Genkit,
+  name: string,
+  client: AzureOpenAI,
+  deployment?: string,
+  resource?: string,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
+  rateLimiters?: Map<string, RateLimiter>,
+) {
+  const model = SUPPORTED_GPT_MODELS[name as keyof typeof SUPPORTED_GPT_MODELS];
+  if (!model) throw new Error(`Unsupported model: ${name}`);
+
+  return defineChatModel(
+    ai,
+    name,
+    model,
+    new DeploymentRouter([{ client, deployment, resource, rateLimiters }]),
+    resource,
+    costs,
+    retry,
+  );
+}
+
+/**
+ * Defines a supported GPT model whose calls are spread over several
+ * deployments by `router`, failing over on throttling and outages. The
+ * deployment that served each call is recorded in the response `custom`
+ * data under `routing`.
+ */
+export function routedGptModel(
+  ai: Genkit,
+  name: string,
+  router: DeploymentRouter,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
+) {
+  const model = SUPPORTED_GPT_MODELS[name as keyof typeof SUPPORTED_GPT_MODELS];
+  if (!model) throw new Error(`Unsupported model: ${name}`);
+
+  return defineChatModel(ai, name, model, router, undefined, costs, retry);
+}
+
+/**
+ * Defines a chat completions model backed by an arbitrary Azure deployment.
+ * Requests and responses are mapped exactly like the built-in GPT models.
+ *
+ * @example
+ * ```typescript
+ * const phi4 = defineAzureModel(ai, client, {
+ *   name: 'phi-4',
+ *   deployment: 'my-phi-4',
+ *   supports: { output: ['text', 'json'] },
+ * });
+ * const { text } = await ai.generate({ model: phi4, prompt: 'Hi!' });
+ * ```
+ */
+export function defineAzureModel(
+  ai: Genkit,
+  client: AzureOpenAI,
+  options: AzureModelOptions,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
+  rateLimiters?: Map<string, RateLimiter>,
+) {
+  const model = azureModelRef(options, OpenAiConfigSchema);
+  return defineChatModel(
+    ai,
+    options.name,
+    model,
+    new DeploymentRouter([
+      {
+        client,
+        deployment: options.deployment ?? options.name,
+        resource: options.resource,
+        rateLimiters,
+      },
+    ]),
+    options.resource,
+    costs,
+    retry,
+  );
+}
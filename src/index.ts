@@ -41,6 +41,8 @@ import {
   o1,
   gpt4o,
   gpt4oMini,
+  gpt4oAudioPreview,
+  gpt4oMiniAudioPreview,
   o3,
   o3Mini,
   o3Pro,
@@ -64,9 +66,78 @@ import {
   gptOss120b,
   gptOss20b,
   gptModel,
+  routedGptModel,
+  OpenAiConfigSchema,
+  ReasoningConfigSchema,
+  AudioConfigSchema,
+  defineAzureModel,
   SUPPORTED_GPT_MODELS,
 } from "./gpt.js";
+import type {
+  AzureModelOptions,
+  CandidateLogProbs,
+  TokenLogProb,
+} from "./gpt.js";
 import { SUPPORTED_TTS_MODELS, ttsModel, tts1, tts1Hd } from "./tts.js";
+import {
+  defineAzureResponsesModel,
+  responsesModel,
+  ResponsesConfigSchema,
+} from "./responses.js";
+import { DeploymentRouter } from "./router.js";
+import type {
+  RouteOptions,
+  RouteTargetOptions,
+  RoutingStrategy,
+} from "./router.js";
+import { entraIdTokenProvider } from "./entra.js";
+import {
+  BudgetExceededError,
+  ContentFilterError,
+  InvalidJsonOutputError,
+  StrictSchemaError,
+} from "./errors.js";
+import { CostTracker, DEFAULT_PRICING, estimateCost } from "./pricing.js";
+import type { BudgetOptions, ModelPricing } from "./pricing.js";
+import { RetryOptionsSchema, RetryPolicy } from "./retry.js";
+import type { RetryOptions } from "./retry.js";
+import { estimateTokens, RateLimiter } from "./rate_limit.js";
+import type { RateLimitOptions } from "./rate_limit.js";
+import type {
+  ContentFilterResult,
+  ContentFilterResults,
+} from "./content_filter.js";
+import { bestOf } from "./candidates.js";
+import type { CandidateScorer } from "./candidates.js";
+import { DataSourceSchema } from "./data_sources.js";
+import type {
+  AzureCosmosDbDataSource,
+  AzureSearchDataSource,
+  Citation,
+  DataSource,
+  DataSourceContext,
+  ElasticsearchDataSource,
+  MongoDbDataSource,
+  PineconeDataSource,
+  RetrievedDocument,
+} from "./data_sources.js";
+import {
+  realtimeSession,
+  registerRealtimeResource,
+  RealtimeSession,
+} from "./realtime.js";
+import type {
+  RealtimeSessionOptions,
+  RealtimeWebSocket,
+  RealtimeWebSocketConstructor,
+} from "./realtime.js";
+import type {
+  ClientCertificateOptions,
+  ClientSecretOptions,
+  EntraIdOptions,
+  ManagedIdentityOptions,
+  WorkloadIdentityOptions,
+} from "./entra.js";
 import { AzureClientOptions } from "openai/azure";
 export {
   onCallGenkit,
@@ -91,6 +162,17 @@ export type {
   BearerTokenContext,
 } from "./azure_functions.js";
 export {
+  bestOf,
+  BudgetExceededError,
+  ContentFilterError,
+  CostTracker,
+  DataSourceSchema,
+  DEFAULT_PRICING,
+  estimateCost,
+  estimateTokens,
+  RateLimiter,
+  RetryOptionsSchema,
+  RetryPolicy,
   dallE3,
   tts1,
   tts1Hd,
@@ -105,6 +187,8 @@ export {
   o1Preview,
   gpt4o,
   gpt4oMini,
+  gpt4oAudioPreview,
+  gpt4oMiniAudioPreview,
   o3,
   o3Mini,
   o3Pro,
@@ -130,23 +214,542 @@ export {
   textEmbedding3Large,
   textEmbedding3Small,
   textEmbeddingAda002,
+  defineAzureModel,
+  defineAzureResponsesModel,
+  entraIdTokenProvider,
+  InvalidJsonOutputError,
+  AudioConfigSchema,
+  OpenAiConfigSchema,
+  ReasoningConfigSchema,
+  ResponsesConfigSchema,
+  StrictSchemaError,
+  realtimeSession,
+  RealtimeSession,
+};
+export type {
+  AzureCosmosDbDataSource,
+  AzureModelOptions,
+  AzureSearchDataSource,
+  BudgetOptions,
+  CandidateLogProbs,
+  CandidateScorer,
+  Citation,
+  ContentFilterResult,
+  ContentFilterResults,
+  DataSource,
+  DataSourceContext,
+  ElasticsearchDataSource,
+  ModelPricing,
+  MongoDbDataSource,
+  PineconeDataSource,
+  RateLimitOptions,
+  RetrievedDocument,
+  RetryOptions,
+  TokenLogProb,
+  ClientCertificateOptions,
+  ClientSecretOptions,
+  EntraIdOptions,
+  ManagedIdentityOptions,
+  WorkloadIdentityOptions,
+  RouteOptions,
+  RouteTargetOptions,
+  RoutingStrategy,
+  RealtimeSessionOptions,
+  RealtimeWebSocket,
+  RealtimeWebSocketConstructor,
 };
 
-export type PluginOptions = AzureClientOptions;
+/**
+ * A named Azure OpenAI resource, e.g. one per region.
+ */
+export interface AzureResourceOptions extends AzureClientOptions {
+  /**
+   * Microsoft Entra ID (keyless) authentication for this resource. Cannot be
+   * combined with `apiKey` or `azureADTokenProvider`.
+   */
+  entraId?: EntraIdOptions;
+
+  /**
+   * Resource name. Its models are registered as
+   * `azure-openai/<name>/<model>`.
+   */
+  name: string;
+
+  /**
+   * Maps supported model names to the deployments of this resource that
+   * serve them. When set, only the models listed here are registered for
+   * this resource.
+   */
+  deployments?: Record<string, string>;
+
+  /**
+   * Supported GPT models to also register on the Responses API for this
+   * resource, as `azure-openai/<name>/responses/<model>`.
+   */
+  responses?: string[];
+
+  /**
+   * Quotas of this resource's deployments, keyed by deployment name. See
+   * `PluginOptions.rateLimits`.
+   */
+  rateLimits?: Record<string, RateLimitOptions>;
+}
+
+/**
+ * A custom model declared in the plugin options.
+ */
+export interface PluginModelOptions extends AzureModelOptions {
+  /**
+   * API serving the model.
+   * @default 'chat'
+   */
+  api?: "chat" | "responses";
+}
+
+export interface PluginOptions extends AzureClientOptions {
+  /**
+   * Microsoft Entra ID (keyless) authentication. Cannot be combined with
+   * `apiKey` or `azureADTokenProvider`.
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({
+   *   endpoint: '<your_endpoint>',
+   *   apiVersion: '2024-10-21',
+   *   entraId: { type: 'managedIdentity' },
+   * });
+   * ```
+   */
+  entraId?: EntraIdOptions;
+
+  /**
+   * Maps supported model names (e.g. `gpt-4o`, `text-embedding-3-large`,
+   * `dall-e-3`, `whisper-1`, `tts-1`) to the Azure deployment that serves them.
+   * When set, only the models listed here are registered, and requests are
+   * sent to the mapped deployment instead of one named after the model.
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({
+   *   deployments: {
+   *     'gpt-4o': 'prod-gpt4o',
+   *     'text-embedding-3-large': 'embeddings',
+   *   },
+   * });
+   * ```
+   */
+  deployments?: Record<string, string>;
+
+  /**
+   * Additional chat completions deployments to register as Genkit models,
+   * e.g. fine-tuned deployments or Azure AI Foundry catalog models. Each one
+   * is registered as `azure-openai/<name>`, or `azure-openai/<resource>/<name>`
+   * when pinned to one of the `resources`. Set `api: 'responses'` to serve a
+   * model through the Responses API instead of Chat Completions.
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({
+   *   models: [
+   *     { name: 'phi-4', supports: { output: ['text', 'json'] } },
+   *     { name: 'support-bot', deployment: 'gpt-4o-ft-support' },
+   *   ],
+   * });
+   * ```
+   */
+  models?: PluginModelOptions[];
+
+  /**
+   * Supported GPT models to also register on the Responses API, as
+   * `azure-openai/responses/<model>`. These models accept reasoning
+   * summaries, built-in tools, background mode and `previousResponseId`
+   * through `ResponsesConfigSchema`.
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({ responses: ['gpt-5', 'gpt-5-codex'] });
+   * // ai.generate({ model: 'azure-openai/responses/gpt-5', ... })
+   * ```
+   */
+  responses?: string[];
+
+  /**
+   * Additional Azure OpenAI resources, each with its own endpoint, API
+   * version, credentials and deployments. Models served by a resource are
+   * registered as `azure-openai/<resource>/<model>`.
+   *
+   * When set, the top-level client is only created if `deployments` or
+   * unpinned `models` are configured.
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({
+   *   resources: [
+   *     {
+   *       name: 'eastus',
+   *       endpoint: 'https://my-eastus.openai.azure.com/',
+   *       apiVersion: '2024-10-21',
+   *       deployments: { 'gpt-4o': 'gpt-4o' },
+   *     },
+   *     {
+   *       name: 'swedencentral',
+   *       endpoint: 'https://my-sweden.openai.azure.com/',
+   *       apiVersion: '2024-10-21',
+   *       deployments: { 'gpt-4o': 'gpt-4o', 'o3-mini': 'o3-mini' },
+   *     },
+   *   ],
+   * });
+   * // ai.generate({ model: 'azure-openai/eastus/gpt-4o', ... })
+   * ```
+   */
+  resources?: AzureResourceOptions[];
+
+  /**
+   * GPT models served by several deployments, keyed by model name. A routed
+   * model is registered as `azure-openai/<model>` and spreads its calls over
+   * the target deployments, failing over to the next one when a deployment
+   * is throttled (429) or unavailable (5xx). The deployment that served a
+   * call is recorded in the response `custom.routing`.
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({
+   *   resources: [eastus, swedencentral],
+   *   routes: {
+   *     'gpt-4o': {
+   *       strategy: 'weighted',
+   *       targets: [
+   *         { resource: 'eastus', weight: 450 },
+   *         { resource: 'swedencentral', weight: 150 },
+   *       ],
+   *     },
+   *   },
+   * });
+   * ```
+   */
+  routes?: Record<string, RouteOptions>;
+
+  /**
+   * Prices of the models, keyed by model name, merged over the list prices
+   * in `DEFAULT_PRICING`. The estimated cost in USD of each call is recorded
+   * in the response `custom.cost` and in the trace. Calls to models without
+   * pricing, or whose usage lacks the measures their model is priced by, are
+   * not costed.
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({
+   *   pricing: {
+   *     'gpt-4o': { input: 2.75, cachedInput: 1.375, output: 11 },
+   *     'phi-4': { input: 0.125, output: 0.5 },
+   *   },
+   * });
+   * ```
+   */
+  pricing?: Record<string, ModelPricing>;
+
+  /**
+   * Spend limit on the estimated cost of the calls, e.g. per user or per
+   * flow. Once a budget key has reached the limit, its calls are rejected
+   * with a `BudgetExceededError`.
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({
+   *   budget: {
+   *     limit: 5,
+   *     key: (context) => context.auth?.uid,
+   *     windowMs: 24 * 60 * 60 * 1000,
+   *   },
+   * });
+   * ```
+   */
+  budget?: BudgetOptions;
+
+  /**
+   * Retry policy of every model and embedder call. Failed calls are retried
+   * with jittered exponential backoff, waiting as long as the service asks
+   * in its `retry-after-ms` header. Streaming calls are only retried until
+   * their first chunk. Each request can override the policy with its
+   * `retry` config. The policy replaces the retries of the OpenAI client,
+   * unless the client `maxRetries` option is set.
+   * @default { maxAttempts: 3 }
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({
+   *   retry: { maxAttempts: 5, initialDelayMs: 1000, statuses: [429, 503] },
+   * });
+   * ```
+   */
+  retry?: RetryOptions;
+
+  /**
+   * TPM and RPM quotas of the deployments, keyed by deployment name. Chat
+   * completions calls to a deployment with a quota wait, in arrival order,
+   * until the quota has room for their estimated tokens: the prompt plus
+   * `maxOutputTokens` for each candidate, as Azure counts them. Estimates
+   * are reconciled with the usage of the responses and the
+   * `x-ratelimit-remaining-*` headers.
+   *
+   * @example
+   * ```typescript
+   * azureOpenAI({
+   *   deployments: { 'gpt-4o': 'prod-gpt4o' },
+   *   rateLimits: { 'prod-gpt4o': { tpm: 150_000 } },
+   * });
+   * ```
+   */
+  rateLimits?: Record<string, RateLimitOptions>;
+}
+
+/**
+ * Creates the client of a resource, or of the top-level options when
+ * `resource` is undefined, and registers its configuration for realtime
+ * sessions.
+ */
+function createClient(
+  ai: Genkit,
+  resource: string | undefined,
+  { entraId, ...options }: AzureClientOptions & { entraId?: EntraIdOptions },
+  deployments?: Record<string, string>,
+): AzureOpenAI {
+  if (entraId && (options.apiKey || options.azureADTokenProvider)) {
+    throw new Error(
+      "The `entraId` option cannot be combined with `apiKey` or `azureADTokenProvider`.",
+    );
+  }
+  // Calls are retried by the plugin's retry policy.
+  const clientOptions = {
+    maxRetries: 0,
+    ...options,
+    ...(entraId && { azureADTokenProvider: entraIdTokenProvider(entraId) }),
+  };
+  const client = new AzureOpenAI(clientOptions);
+  registerRealtimeResource(ai, resource, {
+    client,
+    azureADTokenProvider: clientOptions.azureADTokenProvider,
+    deployments,
+  });
+  return client;
+}
+
+function createRateLimiters(
+  rateLimits?: Record<string, RateLimitOptions>,
+): Map<string, RateLimiter> | undefined {
+  if (!rateLimits) return undefined;
+  return new Map(
+    Object.entries(rateLimits).map(([deployment, quota]) => [
+      deployment,
+      new RateLimiter(quota),
+    ]),
+  );
+}
+
+function defineResourceModels(
+  ai: Genkit,
+  client: AzureOpenAI,
+  costs: CostTracker,
+  retry: RetryPolicy,
+  {
+    deployments,
+    responses = [],
+    resource,
+    routed = [],
+    rateLimiters,
+  }: {
+    deployments?: Record<string, string>;
+    responses?: string[];
+    resource?: string;
+    routed?: string[];
+    rateLimiters?: Map<string, RateLimiter>;
+  },
+) {
+  const isDeployed = (name: string) =>
+    !routed.includes(name) && (!deployments || name in deployments);
+  for (const name of Object.keys(SUPPORTED_GPT_MODELS).filter(isDeployed)) {
+    gptModel(
+      ai,
+      name,
+      client,
+      deployments?.[name],
+      resource,
+      costs,
+      retry,
+      rateLimiters,
+    );
+  }
+  if (isDeployed("dall-e-3")) {
+    dallE3Model(ai, client, deployments?.["dall-e-3"], resource, costs, retry);
+  }
+  if (isDeployed("whisper-1")) {
+    whisper1Model(
+      ai,
+      client,
+      deployments?.["whisper-1"],
+      resource,
+      costs,
+      retry,
+    );
+  }
+  for (const name of Object.keys(SUPPORTED_TTS_MODELS).filter(isDeployed)) {
+    ttsModel(ai, name, client, deployments?.[name], resource, costs, retry);
+  }
+  for (const name of Object.keys(SUPPORTED_EMBEDDING_MODELS).filter(
+    isDeployed,
+  )) {
+    openaiEmbedder(
+      ai,
+      name,
+      client,
+      deployments?.[name],
+      resource,
+      costs,
+      retry,
+    );
+  }
+  for (const name of responses) {
+    responsesModel(
+      ai,
+      name,
+      client,
+      deployments?.[name],
+      resource,
+      costs,
+      retry,
+    );
+  }
+}
 
 export const azureOpenAI = (options?: PluginOptions) =>
   genkitPlugin("azure-openai", async (ai: Genkit) => {
-    const client = new AzureOpenAI(options);
-    for (const name of Object.keys(SUPPORTED_GPT_MODELS)) {
-      gptModel(ai, name, client);
+    const {
+      deployments,
+      models,
+      resources,
+      routes,
+      responses,
+      pricing,
+      budget,
+      retry,
+      rateLimits,
+      ...clientOptions
+    } = options ?? {};
+    const modelPricing = { ...DEFAULT_PRICING };
+    for (const [name, prices] of Object.entries(pricing ?? {})) {
+      modelPricing[name] = { ...DEFAULT_PRICING[name], ...prices };
     }
-    dallE3Model(ai, client);
-    whisper1Model(ai, client);
-    for (const name of Object.keys(SUPPORTED_TTS_MODELS)) {
-      ttsModel(ai, name, client);
+    const costs = new CostTracker(ai, modelPricing, budget);
+    const retryPolicy = new RetryPolicy(retry);
+    const clients = new Map<string, AzureOpenAI>();
+    const resourceDeployments = new Map<
+      string,
+      Record<string, string> | undefined
+    >();
+    const resourceRateLimiters = new Map<
+      string,
+      Map<string, RateLimiter> | undefined
+    >();
+    for (const {
+      name,
+      deployments: resourceDeploymentMap,
+      responses: resourceResponses,
+      rateLimits: resourceRateLimits,
+      ...resourceOptions
+    } of resources ?? []) {
+      if (clients.has(name)) {
+        throw new Error(`Duplicate Azure resource name: ${name}`);
+      }
+      if (name === "responses") {
+        throw new Error(
+          "The Azure resource name 'responses' is reserved for Responses API models",
+        );
+      }
+      const client = createClient(
+        ai,
+        name,
+        resourceOptions,
+        resourceDeploymentMap,
+      );
+      clients.set(name, client);
+      resourceDeployments.set(name, resourceDeploymentMap);
+      const rateLimiters = createRateLimiters(resourceRateLimits);
+      resourceRateLimiters.set(name, rateLimiters);
+      defineResourceModels(ai, client, costs, retryPolicy, {
+        deployments: resourceDeploymentMap,
+        responses: resourceResponses,
+        resource: name,
+        rateLimiters,
+      });
+    }
+
+    const routeEntries = Object.entries(routes ?? {});
+    const defaultRateLimiters = createRateLimiters(rateLimits);
+    let defaultClient: AzureOpenAI | undefined;
+    if (
+      !resources ||
+      deployments ||
+      responses ||
+      models?.some((model) => !model.resource) ||
+      routeEntries.some(([, route]) =>
+        route.targets.some((target) => !target.resource),
+      )
+    ) {
+      defaultClient = createClient(ai, undefined, clientOptions, deployments);
+      defineResourceModels(ai, defaultClient, costs, retryPolicy, {
+        deployments: resources ? (deployments ?? {}) : deployments,
+        responses,
+        routed: routeEntries.map(([name]) => name),
+        rateLimiters: defaultRateLimiters,
+      });
     }
-    for (const name of Object.keys(SUPPORTED_EMBEDDING_MODELS)) {
-      openaiEmbedder(ai, name, client);
+
+    const getClient = (resource: string | undefined, model: string) => {
+      const client = resource ? clients.get(resource) : defaultClient;
+      if (!client) {
+        throw new Error(
+          `Unknown Azure resource '${resource}' for model '${model}'`,
+        );
+      }
+      return client;
+    };
+    const getRateLimiters = (resource: string | undefined) =>
+      resource ? resourceRateLimiters.get(resource) : defaultRateLimiters;
+
+    for (const { api, ...model } of models ?? []) {
+      const client = getClient(model.resource, model.name);
+      if (api === "responses") {
+        defineAzureResponsesModel(ai, client, model, costs, retryPolicy);
+      } else {
+        defineAzureModel(
+          ai,
+          client,
+          model,
+          costs,
+          retryPolicy,
+          getRateLimiters(model.resource),
+        );
+      }
+    }
+
+    for (const [name, route] of routeEntries) {
+      const targets = route.targets.map((target) => ({
+        ...target,
+        client: getClient(target.resource, name),
+        deployment:
+          target.deployment ??
+          (target.resource
+            ? resourceDeployments.get(target.resource)
+            : deployments)?.[name],
+        rateLimiters: getRateLimiters(target.resource),
+      }));
+      routedGptModel(
+        ai,
+        name,
+        new DeploymentRouter(targets, route.strategy, route.cooldownMs),
+        costs,
+        retryPolicy,
+      );
     }
   });
 
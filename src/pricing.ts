@@ -0,0 +1,286 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ActionContext, GenerationUsage, Genkit } from "genkit";
+import type { ModelMiddleware } from "genkit/model";
+import { setCustomMetadataAttributes } from "genkit/tracing";
+import { BudgetExceededError } from "./errors.js";
+
+/**
+ * Prices of a model in USD. Token prices are per million tokens; unset
+ * prices are not charged.
+ */
+export interface ModelPricing {
+  input?: number;
+
+  /**
+   * Price of cached input tokens.
+   * @default input
+   */
+  cachedInput?: number;
+
+  output?: number;
+
+  /**
+   * Price of audio input tokens, for audio models.
+   * @default input
+   */
+  audioInput?: number;
+
+  /**
+   * Price of audio output tokens, for audio models.
+   * @default output
+   */
+  audioOutput?: number;
+
+  /**
+   * Price per generated image.
+   */
+  image?: number;
+
+  /**
+   * Price per minute of transcribed audio.
+   */
+  audioMinute?: number;
+
+  /**
+   * Price per million characters of synthesized speech.
+   */
+  characters?: number;
+}
+
+/**
+ * Global standard list prices of the supported models, keyed by model name.
+ * Override them with the `pricing` plugin option for data zone or
+ * provisioned deployments, or for negotiated prices.
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  "gpt-4o-audio-preview": {
+    input: 2.5,
+    output: 10,
+    audioInput: 40,
+    audioOutput: 80,
+  },
+  "gpt-4o-mini-audio-preview": {
+    input: 0.15,
+    output: 0.6,
+    audioInput: 10,
+    audioOutput: 20,
+  },
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  "gpt-4.5": { input: 75, cachedInput: 37.5, output: 150 },
+  "o1-preview": { input: 15, cachedInput: 7.5, output: 60 },
+  "o1-mini": { input: 1.1, cachedInput: 0.55, output: 4.4 },
+  o1: { input: 15, cachedInput: 7.5, output: 60 },
+  o3: { input: 2, cachedInput: 0.5, output: 8 },
+  "o3-mini": { input: 1.1, cachedInput: 0.55, output: 4.4 },
+  "o3-pro": { input: 20, output: 80 },
+  "o4-mini": { input: 1.1, cachedInput: 0.275, output: 4.4 },
+  "codex-mini": { input: 1.5, cachedInput: 0.375, output: 6 },
+  "gpt-5": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5-mini": { input: 0.25, cachedInput: 0.025, output: 2 },
+  "gpt-5-nano": { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  "gpt-5-chat": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5-codex": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5-pro": { input: 15, output: 120 },
+  "gpt-5.1": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5.1-chat": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5.1-codex": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5.1-codex-mini": { input: 0.25, cachedInput: 0.025, output: 2 },
+  "gpt-5.1-codex-max": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5.2": { input: 1.75, cachedInput: 0.175, output: 14 },
+  "gpt-5.2-chat": { input: 1.75, cachedInput: 0.175, output: 14 },
+  "gpt-5.2-codex": { input: 1.75, cachedInput: 0.175, output: 14 },
+  "gpt-oss-120b": { input: 0.15, output: 0.6 },
+  "gpt-oss-20b": { input: 0.07, output: 0.3 },
+  "text-embedding-3-small": { input: 0.02 },
+  "text-embedding-3-large": { input: 0.13 },
+  "text-embedding-ada-002": { input: 0.1 },
+  // Standard quality, 1024x1024. HD and larger images cost more.
+  "dall-e-3": { image: 0.04 },
+  "whisper-1": { audioMinute: 0.006 },
+  "tts-1": { characters: 15 },
+  "tts-1-hd": { characters: 30 },
+};
+
+function custom(usage: GenerationUsage, key: string): number {
+  const value = usage.custom?.[key];
+  return typeof value === "number" ? value : 0;
+}
+
+/**
+ * Whether the usage of a call reports any measure the model is priced by.
+ * Calls that report none, e.g. Whisper transcriptions returned as plain text
+ * without their duration, cannot be costed.
+ */
+function isBillable(pricing: ModelPricing, usage: GenerationUsage): boolean {
+  const measures: [unknown, number | undefined][] = [
+    [usage.inputTokens, pricing.input ?? pricing.audioInput],
+    [usage.outputTokens, pricing.output ?? pricing.audioOutput],
+    [usage.outputImages, pricing.image],
+    [usage.custom?.inputAudioSeconds, pricing.audioMinute],
+    [usage.inputCharacters, pricing.characters],
+  ];
+  return measures.some(
+    ([measure, price]) => measure !== undefined && price !== undefined,
+  );
+}
+
+/**
+ * Estimates the cost in USD of a call from its usage.
+ */
+export function estimateCost(
+  pricing: ModelPricing,
+  usage: GenerationUsage,
+): number {
+  const perMillion = (tokens: number, price?: number) =>
+    (tokens * (price ?? 0)) / 1_000_000;
+  const cached = usage.cachedContentTokens ?? 0;
+  const audioInput = custom(usage, "inputAudioTokens");
+  const audioOutput = custom(usage, "outputAudioTokens");
+  const input = Math.max((usage.inputTokens ?? 0) - cached - audioInput, 0);
+  const output = Math.max((usage.outputTokens ?? 0) - audioOutput, 0);
+  return (
+    perMillion(input, pricing.input) +
+    perMillion(cached, pricing.cachedInput ?? pricing.input) +
+    perMillion(audioInput, pricing.audioInput ?? pricing.input) +
+    perMillion(output, pricing.output) +
+    perMillion(audioOutput, pricing.audioOutput ?? pricing.output) +
+    (usage.outputImages ?? 0) * (pricing.image ?? 0) +
+    (custom(usage, "inputAudioSeconds") / 60) * (pricing.audioMinute ?? 0) +
+    perMillion(usage.inputCharacters ?? 0, pricing.characters)
+  );
+}
+
+export interface BudgetOptions {
+  /**
+   * Spend limit in USD per budget key. Once a key has spent this much, its
+   * calls are rejected with a `BudgetExceededError`.
+   */
+  limit: number;
+
+  /**
+   * Budget key of a call, from the context of the flow or action making it,
+   * e.g. the user id in `context.auth`. Calls without a key are not limited.
+   * @default all calls share one budget
+   */
+  key?: (context: ActionContext) => string | undefined;
+
+  /**
+   * Period after which the spend of a key is reset. Budgets never reset
+   * when unset.
+   */
+  windowMs?: number;
+}
+
+/**
+ * Estimates the cost of model and embedder calls from the pricing table,
+ * records it in the response `custom.cost` and the trace, and enforces the
+ * spend limit of the optional budget.
+ */
+export class CostTracker {
+  private readonly spend = new Map<string, { usd: number; since: number }>();
+
+  constructor(
+    private readonly ai: Genkit,
+    private readonly pricing: Record<string, ModelPricing>,
+    private readonly budget?: BudgetOptions,
+  ) {}
+
+  /**
+   * Model middleware that tracks the cost of the calls to `model`.
+   */
+  middleware(model: string): ModelMiddleware {
+    return async (request, next) => {
+      const key = this.check();
+      const response = await next(request);
+      const cost = this.record(model, key, response.usage);
+      if (cost === undefined) return response;
+      return {
+        ...response,
+        custom: { ...(response.custom as object), cost },
+      };
+    };
+  }
+
+  /**
+   * Returns the budget key of the current call, throwing a
+   * `BudgetExceededError` when its budget is spent.
+   */
+  check(): string | undefined {
+    if (!this.budget) return undefined;
+    const key = this.budget.key
+      ? this.budget.key(this.ai.currentContext() ?? {})
+      : "default";
+    if (key === undefined) return undefined;
+    const spent = this.spent(key);
+    if (spent >= this.budget.limit) {
+      throw new BudgetExceededError(key, this.budget.limit, spent);
+    }
+    return key;
+  }
+
+  /**
+   * Records the cost of a call to `model`, returning it in USD, or
+   * `undefined` when the model has no pricing or the usage none of the
+   * measures it is priced by.
+   */
+  record(
+    model: string,
+    key: string | undefined,
+    usage: GenerationUsage | undefined,
+  ): number | undefined {
+    const pricing = this.pricing[model];
+    if (!pricing || !usage || !isBillable(pricing, usage)) return undefined;
+    const cost = estimateCost(pricing, usage);
+    const attributes: Record<string, string> = { costUsd: String(cost) };
+    if (key !== undefined) {
+      const spent = this.spent(key) + cost;
+      this.spend.set(key, {
+        usd: spent,
+        since: this.spend.get(key)?.since ?? Date.now(),
+      });
+      attributes.budgetKey = key;
+      attributes.budgetSpentUsd = String(spent);
+    }
+    setCustomMetadataAttributes(attributes);
+    return cost;
+  }
+
+  /**
+   * Amount spent by a budget key in the current window, in USD.
+   */
+  spent(key: string): number {
+    const entry = this.spend.get(key);
+    if (!entry) return 0;
+    if (
+      this.budget?.windowMs &&
+      Date.now() - entry.since >= this.budget.windowMs
+    ) {
+      this.spend.delete(key);
+      return 0;
+    }
+    return entry.usd;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ChatCompletionCreateParams } from "openai/resources/index";
+
+/**
+ * Quota of a deployment, as assigned in Azure AI Foundry.
+ */
+export interface RateLimitOptions {
+  /**
+   * Tokens per minute.
+   */
+  tpm?: number;
+
+  /**
+   * Requests per minute. Azure OpenAI grants 6 RPM per 1000 TPM for most
+   * models.
+   * @default tpm * 6 / 1000
+   */
+  rpm?: number;
+}
+
+// Rough average for English text, which is all an admission estimate needs.
+const CHARS_PER_TOKEN = 4;
+
+// A high detail 1024x1024 image.
+const IMAGE_TOKENS = 765;
+
+/**
+ * Estimates the tokens a chat completions request counts against the TPM
+ * quota: its prompt plus the maximum output tokens of each candidate, as
+ * the service does when it admits the request.
+ */
+export function estimateTokens(body: ChatCompletionCreateParams): number {
+  let chars = 0;
+  let images = 0;
+  for (const { content, ...message } of body.messages) {
+    chars += JSON.stringify(message).length;
+    if (typeof content === "string") {
+      chars += content.length;
+      continue;
+    }
+    for (const part of content ?? []) {
+      if (part.type === "text") chars += part.text.length;
+      if (part.type === "refusal") chars += part.refusal.length;
+      if (part.type === "image_url") images++;
+    }
+  }
+  if (body.tools) chars += JSON.stringify(body.tools).length;
+  const maxOutputTokens = body.max_completion_tokens ?? body.max_tokens ?? 0;
+  return (
+    Math.ceil(chars / CHARS_PER_TOKEN) +
+    images * IMAGE_TOKENS +
+    maxOutputTokens * (body.n ?? 1)
+  );
+}
+
+/**
+ * A bucket holding up to a minute of quota, refilled continuously. It goes
+ * into debt when a call used more than was taken for it.
+ */
+class TokenBucket {
+  private level: number;
+  private updated = Date.now();
+
+  constructor(readonly capacity: number) {
+    this.level = capacity;
+  }
+
+  /**
+   * Milliseconds until `amount` is available. Amounts above the capacity
+   * only wait for a full bucket.
+   */
+  waitMs(amount: number): number {
+    this.refill();
+    const missing = Math.min(amount, this.capacity) - this.level;
+    return missing > 0 ? Math.ceil((missing * 60_000) / this.capacity) : 0;
+  }
+
+  /**
+   * Adds `amount` to the bucket, or takes it when negative.
+   */
+  add(amount: number) {
+    this.refill();
+    this.level = Math.min(this.level + amount, this.capacity);
+  }
+
+  /**
+   * Lowers the level to the remaining quota reported by the service, which
+   * also counts the calls of other clients.
+   */
+  sync(remaining: number) {
+    this.refill();
+    this.level = Math.min(this.level, remaining);
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.level = Math.min(
+      this.level + ((now - this.updated) * this.capacity) / 60_000,
+      this.capacity,
+    );
+    this.updated = now;
+  }
+}
+
+function remainingQuota(
+  headers: Headers | null | undefined,
+  name: string,
+): number | undefined {
+  const value = parseFloat(headers?.get(`x-ratelimit-remaining-${name}`) ?? "");
+  return Number.isNaN(value) ? undefined : value;
+}
+
+/**
+ * Client-side token bucket limiter of a deployment. Calls wait until the
+ * deployment has quota for their estimated tokens, in arrival order, so
+ * that large calls are not starved by small ones.
+ */
+export class RateLimiter {
+  private readonly tokens?: TokenBucket;
+  private readonly requests?: TokenBucket;
+  private readonly queue: { tokens: number; resolve: () => void }[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimitOptions) {
+    const rpm = options.rpm ?? (options.tpm && (options.tpm * 6) / 1000);
+    if (options.tpm) this.tokens = new TokenBucket(options.tpm);
+    if (rpm) this.requests = new TokenBucket(rpm);
+  }
+
+  /**
+   * Resolves once the deployment has quota for a call of `tokens` tokens,
+   * and takes it.
+   */
+  acquire(tokens: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push({ tokens, resolve });
+      this.drain();
+    });
+  }
+
+  /**
+   * Reconciles the estimate of a call with the tokens it actually used, and
+   * with the remaining quota in the `x-ratelimit-remaining-tokens` and
+   * `x-ratelimit-remaining-requests` response headers. The estimate is kept
+   * when the usage is unknown, e.g. for failed calls.
+   */
+  reconcile(estimated: number, used?: number, headers?: Headers | null) {
+    if (used !== undefined) this.tokens?.add(estimated - used);
+    const remainingTokens = remainingQuota(headers, "tokens");
+    if (remainingTokens !== undefined) this.tokens?.sync(remainingTokens);
+    const remainingRequests = remainingQuota(headers, "requests");
+    if (remainingRequests !== undefined) {
+      this.requests?.sync(remainingRequests);
+    }
+    this.drain();
+  }
+
+  /**
+   * Admits the queued calls in order while there is quota, then waits for
+   * the bucket to refill for the next one.
+   */
+  private drain() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    while (this.queue.length) {
+      const next = this.queue[0];
+      const waitMs = Math.max(
+        this.tokens?.waitMs(next.tokens) ?? 0,
+        this.requests?.waitMs(1) ?? 0,
+      );
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => this.drain(), waitMs);
+        return;
+      }
+      this.queue.shift();
+      this.tokens?.add(-next.tokens);
+      this.requests?.add(-1);
+      next.resolve();
+    }
+  }
+}
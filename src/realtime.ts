@@ -0,0 +1,433 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Genkit } from "genkit";
+import { toToolDefinition, type ToolAction } from "genkit/tool";
+import type { AzureOpenAI } from "openai";
+import type {
+  RealtimeClientEvent,
+  RealtimeServerEvent,
+  RealtimeSessionCreateRequest,
+  RealtimeToolsConfigUnion,
+} from "openai/resources/realtime/realtime";
+import { toOpenAiTool } from "./gpt.js";
+
+/**
+ * The subset of the WebSocket API used by realtime sessions, implemented by
+ * the runtime's `WebSocket` and by the `ws` package.
+ */
+export interface RealtimeWebSocket {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(
+    type: "open" | "message" | "error" | "close",
+    listener: (event: { data?: unknown; message?: string }) => void,
+  ): void;
+}
+
+/**
+ * A WebSocket constructor with the signature of the `ws` package, whose
+ * options can set the handshake headers.
+ */
+export type RealtimeWebSocketConstructor = new (
+  url: string,
+  protocols?: string | string[],
+  options?: { headers?: Record<string, string> },
+) => RealtimeWebSocket;
+
+// The runtime's WebSocket, which on Node.js takes the headers in place of
+// the protocols.
+type RuntimeWebSocketConstructor = new (
+  url: string,
+  init?:
+    | string
+    | string[]
+    | { protocols?: string | string[]; headers?: Record<string, string> },
+) => RealtimeWebSocket;
+
+/**
+ * Client configuration of one of the plugin's resources, which realtime
+ * sessions connect with.
+ */
+export interface RealtimeResource {
+  client: AzureOpenAI;
+
+  /**
+   * Microsoft Entra ID token provider of the client, when it is keyless.
+   */
+  azureADTokenProvider?: () => Promise<string>;
+
+  deployments?: Record<string, string>;
+}
+
+// Keyed like plugin actions, so that looking a resource up initializes the
+// plugin.
+const resourceKey = (resource?: string) =>
+  `/realtime/azure-openai/${resource ?? ""}`;
+
+/**
+ * Registers the client configuration of a resource of the plugin, or of its
+ * top-level options when `resource` is undefined.
+ */
+export function registerRealtimeResource(
+  ai: Genkit,
+  resource: string | undefined,
+  config: RealtimeResource,
+): void {
+  ai.registry.registerValue("realtime", resourceKey(resource), config);
+}
+
+export interface RealtimeSessionOptions {
+  /**
+   * Resource of the plugin serving the deployment, as named in its
+   * `resources` option. Defaults to the plugin's top-level client.
+   */
+  resource?: string;
+
+  /**
+   * Realtime deployment, e.g. `gpt-realtime`. Mapped by the resource's
+   * `deployments` when listed there.
+   */
+  deployment: string;
+
+  instructions?: string;
+
+  voice?: string;
+
+  /**
+   * @default ['audio']
+   */
+  outputModalities?: Array<"text" | "audio">;
+
+  /**
+   * Genkit tools the model can call. Calls are run by the session and their
+   * results sent back to the model, which then continues its response.
+   */
+  tools?: ToolAction[];
+
+  /**
+   * Additional session settings, e.g. `audio.input.turn_detection`.
+   */
+  session?: Partial<RealtimeSessionCreateRequest>;
+
+  /**
+   * WebSocket URL of the session, e.g. a local mock server. Defaults to the
+   * realtime endpoint of the resource.
+   */
+  url?: string;
+
+  /**
+   * How the API key or Entra ID token is sent:
+   * - `headers`: in the handshake headers, which browsers cannot set
+   * - `query`: in the URL query string, for browsers. The URL may end up in
+   *   proxy and server logs, so prefer short-lived tokens.
+   * @default 'headers'
+   */
+  credentials?: "headers" | "query";
+
+  /**
+   * WebSocket implementation. Defaults to the runtime's `WebSocket` (Node.js
+   * 22 and later); pass the `ws` package's `WebSocket` on older runtimes.
+   */
+  webSocket?: RealtimeWebSocketConstructor;
+}
+
+/**
+ * A realtime conversation over WebSocket. Server events are read by
+ * iterating the session; the iteration ends when the socket closes.
+ */
+export class RealtimeSession implements AsyncIterable<RealtimeServerEvent> {
+  private readonly events: RealtimeServerEvent[] = [];
+  private readonly waiting: Array<{
+    resolve: (result: IteratorResult<RealtimeServerEvent>) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private readonly toolCalls: Promise<RealtimeClientEvent>[] = [];
+  private error?: Error;
+  private closed = false;
+
+  constructor(
+    private readonly socket: RealtimeWebSocket,
+    private readonly tools: Map<string, ToolAction>,
+  ) {
+    socket.addEventListener("message", (event) => {
+      let serverEvent: RealtimeServerEvent;
+      try {
+        serverEvent = JSON.parse(String(event.data));
+      } catch (e) {
+        this.fail(
+          new Error(
+            `Invalid realtime event: ${e instanceof Error ? e.message : String(e)}`,
+          ),
+        );
+        this.close();
+        return;
+      }
+      this.receive(serverEvent);
+    });
+    socket.addEventListener("error", (event) => {
+      this.fail(new Error(`Realtime socket error: ${event?.message ?? ""}`));
+    });
+    socket.addEventListener("close", () => this.end());
+  }
+
+  send(event: RealtimeClientEvent): void {
+    this.socket.send(JSON.stringify(event));
+  }
+
+  /**
+   * Adds a user text message to the conversation and asks for a response.
+   */
+  sendText(text: string): void {
+    this.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text }],
+      },
+    });
+    this.send({ type: "response.create" });
+  }
+
+  /**
+   * Appends base64 encoded audio to the input buffer.
+   */
+  appendAudio(audio: string): void {
+    this.send({ type: "input_audio_buffer.append", audio });
+  }
+
+  /**
+   * Commits the input buffer as a user message. Only needed when server
+   * turn detection is disabled.
+   */
+  commitAudio(): void {
+    this.send({ type: "input_audio_buffer.commit" });
+  }
+
+  close(): void {
+    this.socket.close(1000, "OK");
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<RealtimeServerEvent> {
+    return {
+      next: () => {
+        const event = this.events.shift();
+        if (event) return Promise.resolve({ value: event, done: false });
+        if (this.error) return Promise.reject(this.error);
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) =>
+          this.waiting.push({ resolve, reject }),
+        );
+      },
+      return: () => {
+        this.close();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  private receive(event: RealtimeServerEvent) {
+    if (event.type === "response.function_call_arguments.done") {
+      this.toolCalls.push(
+        this.callTool(event.call_id, event.name, event.arguments),
+      );
+    } else if (event.type === "response.done" && this.toolCalls.length) {
+      // Send the tool outputs once the response that requested them is done,
+      // then let the model continue.
+      const calls = this.toolCalls.splice(0);
+      Promise.all(calls).then((outputs) => {
+        if (this.closed) return;
+        outputs.forEach((output) => this.send(output));
+        this.send({ type: "response.create" });
+      });
+    }
+    const waiting = this.waiting.shift();
+    if (waiting) {
+      waiting.resolve({ value: event, done: false });
+    } else {
+      this.events.push(event);
+    }
+  }
+
+  private async callTool(
+    callId: string,
+    name: string,
+    args: string,
+  ): Promise<RealtimeClientEvent> {
+    let output: unknown;
+    try {
+      const tool = this.tools.get(name);
+      if (!tool) throw new Error(`Unknown tool: ${name}`);
+      output = await tool(args ? JSON.parse(args) : {});
+    } catch (e) {
+      output = { error: e instanceof Error ? e.message : String(e) };
+    }
+    return {
+      type: "conversation.item.create",
+      item: {
+        type: "function_call_output",
+        call_id: callId,
+        output: typeof output === "string" ? output : JSON.stringify(output),
+      },
+    };
+  }
+
+  private fail(error: Error) {
+    this.error = error;
+    this.waiting.splice(0).forEach(({ reject }) => reject(error));
+  }
+
+  private end() {
+    this.closed = true;
+    this.waiting
+      .splice(0)
+      .forEach(({ resolve }) => resolve({ value: undefined, done: true }));
+  }
+}
+
+function toRealtimeTool(tool: ToolAction): RealtimeToolsConfigUnion {
+  const { function: fn } = toOpenAiTool(toToolDefinition(tool));
+  return {
+    type: "function",
+    name: fn.name,
+    description: fn.description,
+    parameters: fn.parameters,
+  };
+}
+
+function realtimeUrl(
+  { client, deployments }: RealtimeResource,
+  options: RealtimeSessionOptions,
+): URL {
+  if (options.url) return new URL(options.url);
+  const url = new URL("v1/realtime", client.baseURL.replace(/\/*$/, "/"));
+  url.protocol = url.protocol === "http:" ? "ws:" : "wss:";
+  url.searchParams.set(
+    "model",
+    deployments?.[options.deployment] ?? options.deployment,
+  );
+  return url;
+}
+
+/**
+ * The credential of a resource, as the header sent by its client.
+ */
+async function realtimeCredentials({
+  client,
+  azureADTokenProvider,
+}: RealtimeResource): Promise<Record<string, string>> {
+  if (azureADTokenProvider) {
+    return { Authorization: `Bearer ${await azureADTokenProvider()}` };
+  }
+  return client.apiKey ? { "api-key": client.apiKey } : {};
+}
+
+/**
+ * Opens a realtime session on an Azure realtime deployment, e.g. for voice
+ * agents, with the endpoint and credentials the plugin was configured with.
+ * The session is configured with `instructions`, `voice` and the given
+ * Genkit `tools`, whose calls are run automatically.
+ *
+ * @example
+ * ```typescript
+ * const session = await realtimeSession(ai, {
+ *   deployment: 'gpt-realtime',
+ *   instructions: 'You are a helpful assistant.',
+ *   tools: [getWeather],
+ * });
+ * session.sendText('What is the weather in Paris?');
+ * for await (const event of session) {
+ *   if (event.type === 'response.output_audio.delta') play(event.delta);
+ * }
+ * ```
+ */
+export async function realtimeSession(
+  ai: Genkit,
+  options: RealtimeSessionOptions,
+): Promise<RealtimeSession> {
+  const resource = await ai.registry.lookupValue<RealtimeResource>(
+    "realtime",
+    resourceKey(options.resource),
+  );
+  if (!resource) {
+    throw new Error(
+      options.resource
+        ? `Unknown Azure resource '${options.resource}' for realtime session`
+        : "A realtime session needs the azureOpenAI plugin's top-level client, or a `resource`.",
+    );
+  }
+  const url = realtimeUrl(resource, options);
+  const credentials = await realtimeCredentials(resource);
+  const headers = options.credentials === "query" ? undefined : credentials;
+  if (!headers) {
+    for (const [name, value] of Object.entries(credentials)) {
+      url.searchParams.set(name, value);
+    }
+  }
+  const RuntimeWebSocket = (
+    globalThis as { WebSocket?: RuntimeWebSocketConstructor }
+  ).WebSocket;
+  let socket: RealtimeWebSocket;
+  if (options.webSocket) {
+    socket = new options.webSocket(
+      url.toString(),
+      "realtime",
+      headers && { headers },
+    );
+  } else if (RuntimeWebSocket) {
+    socket = new RuntimeWebSocket(
+      url.toString(),
+      headers ? { protocols: "realtime", headers } : "realtime",
+    );
+  } else {
+    throw new Error(
+      "No WebSocket implementation available. Use Node.js 22 or later, or pass the `ws` package's WebSocket as `webSocket`.",
+    );
+  }
+  await new Promise<void>((resolve, reject) => {
+    socket.addEventListener("open", () => resolve());
+    socket.addEventListener("error", (event) =>
+      reject(
+        new Error(`Could not open realtime session: ${event?.message ?? ""}`),
+      ),
+    );
+  });
+
+  const tools = options.tools ?? [];
+  const session = new RealtimeSession(
+    socket,
+    // Calls name the tools as advertised, which for namespaced tools is not
+    // their action name.
+    new Map(tools.map((tool) => [toToolDefinition(tool).name, tool])),
+  );
+  session.send({
+    type: "session.update",
+    session: {
+      type: "realtime",
+      instructions: options.instructions,
+      output_modalities: options.outputModalities,
+      audio: options.voice ? { output: { voice: options.voice } } : undefined,
+      tools: tools.length ? tools.map(toRealtimeTool) : undefined,
+      ...options.session,
+    },
+  });
+  return session;
+}
@@ -0,0 +1,563 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenerationCommonConfigSchema, Message, z } from "genkit";
+import type {
+  GenerateRequest,
+  GenerateResponseData,
+  Genkit,
+  MessageData,
+  Part,
+  StreamingCallback,
+} from "genkit";
+import {
+  CandidateData,
+  GenerateResponseChunkData,
+  ModelReference,
+  ToolDefinition,
+} from "genkit/model";
+import { AzureOpenAI } from "openai";
+import type {
+  FunctionTool,
+  Response,
+  ResponseCreateParamsNonStreaming,
+  ResponseFunctionCallOutputItem,
+  ResponseInputContent,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseTextConfig,
+  Tool,
+  ToolChoiceOptions,
+} from "openai/resources/responses/responses";
+import {
+  azureModelRef,
+  SUPPORTED_GPT_MODELS,
+  toOpenAiTool,
+  toOpenAiToolChoice,
+  type AzureModelOptions,
+} from "./gpt.js";
+import { parseJsonOutput } from "./errors.js";
+import type { CostTracker } from "./pricing.js";
+import { RetryOptionsSchema, type RetryPolicy } from "./retry.js";
+import {
+  outputInstructions,
+  parseToolInput,
+  removeOptionalNulls,
+  tryStrictJsonSchema,
+  type JSONSchema,
+} from "./schema.js";
+import { PartialJsonAccumulator } from "./stream.js";
+import {
+  dataUrlData,
+  mediaContentType,
+  mediaFilename,
+  modelId,
+  modelMiddleware,
+} from "./utils.js";
+
+export const ResponsesConfigSchema = GenerationCommonConfigSchema.extend({
+  user: z.string().optional(),
+  visualDetailLevel: z.enum(["auto", "low", "high"]).optional(),
+  reasoningEffort: z
+    .enum(["none", "minimal", "low", "medium", "high", "xhigh"])
+    .optional(),
+  reasoningSummary: z.enum(["auto", "concise", "detailed"]).optional(),
+  /**
+   * Continues the conversation of a stored response. Only the messages after
+   * the last model turn are sent.
+   */
+  previousResponseId: z.string().optional(),
+  store: z.boolean().optional(),
+  /**
+   * Runs the response in background mode and polls it until it completes,
+   * so long running requests are not bound to a single HTTP connection.
+   */
+  background: z.boolean().optional(),
+  backgroundPollIntervalMs: z.number().int().min(100).optional(),
+  /**
+   * Built-in Responses API tools, e.g. `{ type: 'web_search_preview' }` or
+   * `{ type: 'code_interpreter', container: { type: 'auto' } }`.
+   */
+  builtInTools: z.array(z.record(z.string(), z.any())).optional(),
+  parallelToolCalls: z.boolean().optional(),
+  /**
+   * Name of a tool the model must call. Takes precedence over the
+   * `toolChoice` generate option.
+   */
+  forcedTool: z.string().optional(),
+  /**
+   * Sends tools with strict function calling. See `OpenAiConfigSchema`.
+   */
+  strictTools: z.boolean().optional(),
+  /**
+   * Retry policy of this request, merged over the plugin's `retry` option.
+   */
+  retry: RetryOptionsSchema.optional(),
+});
+
+type ResponsesConfig = z.infer<typeof ResponsesConfigSchema>;
+
+function toResponsesTool(tool: ToolDefinition, strict = false): FunctionTool {
+  const { function: fn } = toOpenAiTool(tool, strict);
+  return {
+    type: "function",
+    name: fn.name,
+    description: fn.description,
+    parameters: fn.parameters ?? null,
+    strict,
+  };
+}
+
+function toResponsesContent(
+  part: Part,
+  visualDetailLevel: ResponsesConfig["visualDetailLevel"] = "auto",
+): ResponseInputContent {
+  if (part.text) {
+    return { type: "input_text", text: part.text };
+  } else if (part.media) {
+    const contentType = mediaContentType(part.media);
+    if (!contentType || contentType.startsWith("image/")) {
+      return {
+        type: "input_image",
+        image_url: part.media.url,
+        detail: visualDetailLevel,
+      };
+    }
+    if (contentType.startsWith("audio/") || contentType.startsWith("video/")) {
+      throw new Error(
+        `Unsupported media input for the Responses API: ${contentType}.`,
+      );
+    }
+    return dataUrlData(part.media.url)
+      ? {
+          type: "input_file",
+          file_data: part.media.url,
+          filename: mediaFilename(part, contentType),
+        }
+      : { type: "input_file", file_url: part.media.url };
+  }
+  throw Error(
+    `Unsupported genkit part fields encountered for current message role: ${JSON.stringify(part)}.`,
+  );
+}
+
+export function toResponsesInput(
+  messages: MessageData[],
+  visualDetailLevel?: ResponsesConfig["visualDetailLevel"],
+): ResponseInputItem[] {
+  const input: ResponseInputItem[] = [];
+  for (const message of messages) {
+    const msg = new Message(message);
+    switch (message.role) {
+      case "system":
+        input.push({ role: "system", content: msg.text });
+        break;
+      case "user":
+        input.push({
+          role: "user",
+          content: msg.content.map((part) =>
+            toResponsesContent(part, visualDetailLevel),
+          ),
+        });
+        break;
+      case "model":
+        if (msg.text) {
+          input.push({ role: "assistant", content: msg.text });
+        }
+        for (const part of msg.content) {
+          if (part.toolRequest) {
+            input.push({
+              type: "function_call",
+              call_id: part.toolRequest.ref || "",
+              name: part.toolRequest.name,
+              arguments: JSON.stringify(part.toolRequest.input),
+            });
+          }
+        }
+        break;
+      case "tool":
+        for (const part of msg.toolResponseParts()) {
+          const output =
+            typeof part.toolResponse.output === "string"
+              ? part.toolResponse.output
+              : JSON.stringify(part.toolResponse.output);
+          const media = (part.toolResponse.content ?? []).filter(
+            (p) => p.media,
+          );
+          input.push({
+            type: "function_call_output",
+            call_id: part.toolResponse.ref || "",
+            output: media.length
+              ? [
+                  ...(output
+                    ? [{ type: "input_text" as const, text: output }]
+                    : []),
+                  ...(media.map((p) =>
+                    toResponsesContent(p, visualDetailLevel),
+                  ) as ResponseFunctionCallOutputItem[]),
+                ]
+              : output,
+          });
+        }
+        break;
+      default:
+        throw new Error(`role ${message.role} doesn't map to an OpenAI role.`);
+    }
+  }
+  return input;
+}
+
+/**
+ * The output format of a request, and the instructions describing its
+ * schema when strict mode cannot express it.
+ */
+function toResponsesTextConfig(request: GenerateRequest): {
+  text?: ResponseTextConfig;
+  instructions?: string;
+} {
+  if (request.output?.format !== "json") return {};
+  // Genkit only forwards the schema of a constrained request when the model
+  // declares native constrained output support.
+  const outputSchema =
+    request.output.constrained !== false ? request.output.schema : undefined;
+  const schema = outputSchema && tryStrictJsonSchema(outputSchema);
+  if (schema) {
+    return {
+      text: {
+        format: { type: "json_schema", name: "output", schema, strict: true },
+      },
+    };
+  }
+  // Schemas strict mode cannot express fall back to plain JSON mode, with
+  // the schema in the instructions since Genkit left it to the model.
+  return {
+    text: { format: { type: "json_object" } },
+    instructions: outputSchema && outputInstructions(outputSchema),
+  };
+}
+
+export function toResponsesRequestBody(
+  modelName: string,
+  request: GenerateRequest,
+  deployment?: string,
+  model?: ModelReference<z.ZodTypeAny>,
+): ResponseCreateParamsNonStreaming {
+  const config: ResponsesConfig = request.config ?? {};
+  if (request.tools?.length && model?.info?.supports?.tools === false) {
+    throw new Error(`Model ${modelName} does not support tools.`);
+  }
+  if (
+    model?.info?.supports?.media === false &&
+    request.messages.some((m) => m.content.some((part) => part.media))
+  ) {
+    throw new Error(`Model ${modelName} does not support media input.`);
+  }
+  let messages = request.messages;
+  if (config.previousResponseId) {
+    const lastModelTurn = messages.map((m) => m.role).lastIndexOf("model");
+    messages = messages.slice(lastModelTurn + 1);
+  }
+  const tools: Tool[] = [
+    ...(request.tools?.map((tool) =>
+      toResponsesTool(tool, config.strictTools),
+    ) ?? []),
+    ...((config.builtInTools ?? []) as Tool[]),
+  ];
+  const toolChoice = toOpenAiToolChoice(request);
+  const { text, instructions } = toResponsesTextConfig(request);
+  const body: ResponseCreateParamsNonStreaming = {
+    model: config.version || deployment || modelName,
+    input: toResponsesInput(messages, config.visualDetailLevel),
+    tools: tools.length ? tools : undefined,
+    tool_choice: !tools.length
+      ? undefined
+      : typeof toolChoice === "object" && toolChoice.type === "function"
+        ? { type: "function", name: toolChoice.function.name }
+        : (toolChoice as ToolChoiceOptions | undefined),
+    parallel_tool_calls: tools.length ? config.parallelToolCalls : undefined,
+    max_output_tokens: config.maxOutputTokens,
+    temperature: config.temperature,
+    top_p: config.topP,
+    user: config.user,
+    previous_response_id: config.previousResponseId,
+    store: config.store,
+    background: config.background,
+    reasoning:
+      config.reasoningEffort || config.reasoningSummary
+        ? { effort: config.reasoningEffort, summary: config.reasoningSummary }
+        : undefined,
+    text,
+    instructions,
+  };
+  for (const key in body) {
+    if (body[key as keyof typeof body] === undefined) {
+      delete body[key as keyof typeof body];
+    }
+  }
+  return body;
+}
+
+function fromResponsesOutputItem(
+  item: ResponseOutputItem,
+  tools?: ToolDefinition[],
+): Part[] {
+  switch (item.type) {
+    case "message":
+      return item.content.map((content) =>
+        content.type === "output_text"
+          ? { text: content.text }
+          : { text: content.refusal },
+      );
+    case "function_call":
+      return [
+        {
+          toolRequest: {
+            name: item.name,
+            ref: item.call_id,
+            input: parseToolInput(item.name, item.arguments, tools),
+          },
+        },
+      ];
+    case "reasoning":
+      return item.summary.length
+        ? [{ reasoning: item.summary.map((s) => s.text).join("\n\n") }]
+        : [];
+    default:
+      return [];
+  }
+}
+
+function fromResponsesFinishReason(
+  response: Response,
+): CandidateData["finishReason"] {
+  switch (response.status) {
+    case "completed":
+      return "stop";
+    case "incomplete":
+      switch (response.incomplete_details?.reason) {
+        case "max_output_tokens":
+          return "length";
+        case "content_filter":
+          return "blocked";
+        default:
+          return "other";
+      }
+    case "failed":
+    case "cancelled":
+      return "other";
+    default:
+      return "unknown";
+  }
+}
+
+export function fromResponsesResponse(
+  response: Response,
+  jsonMode = false,
+  outputSchema?: JSONSchema,
+  tools?: ToolDefinition[],
+): GenerateResponseData {
+  const content = response.output.flatMap((item) =>
+    fromResponsesOutputItem(item, tools),
+  );
+  const finishReason = fromResponsesFinishReason(response);
+  return {
+    candidates: [
+      {
+        index: 0,
+        finishReason,
+        finishMessage: response.error?.message,
+        message: {
+          role: "model",
+          content: jsonMode
+            ? content.map((part) =>
+                part.text !== undefined
+                  ? {
+                      // Optional properties come back as null in strict mode.
+                      data: removeOptionalNulls(
+                        parseJsonOutput(part.text, finishReason),
+                        outputSchema ?? {},
+                      ),
+                    }
+                  : part,
+              )
+            : content,
+        },
+        custom: {},
+      },
+    ],
+    usage: {
+      inputTokens: response.usage?.input_tokens,
+      outputTokens: response.usage?.output_tokens,
+      totalTokens: response.usage?.total_tokens,
+      thoughtsTokens: response.usage?.output_tokens_details?.reasoning_tokens,
+      cachedContentTokens: response.usage?.input_tokens_details?.cached_tokens,
+    },
+    custom: response,
+  };
+}
+
+async function waitForBackgroundResponse(
+  client: AzureOpenAI,
+  response: Response,
+  pollIntervalMs = 2000,
+): Promise<Response> {
+  while (response.status === "queued" || response.status === "in_progress") {
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    response = await client.responses.retrieve(response.id);
+  }
+  return response;
+}
+
+/**
+ * Defines a model that is served through the Responses API instead of Chat
+ * Completions.
+ */
+export function defineResponsesModel(
+  ai: Genkit,
+  name: string,
+  model: ModelReference<z.ZodTypeAny>,
+  client: AzureOpenAI,
+  deployment?: string,
+  id = model.name,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
+) {
+  return ai.defineModel(
+    {
+      name: id,
+      ...model.info,
+      configSchema: model.configSchema,
+      use: modelMiddleware(name, costs, retry),
+    },
+    async (
+      request,
+      streamingCallback?: StreamingCallback<GenerateResponseChunkData>,
+    ) => {
+      const body = toResponsesRequestBody(name, request, deployment, model);
+      let response: Response;
+      if (streamingCallback && !body.background) {
+        const stream = client.responses.stream({ ...body, stream: true });
+        const json =
+          request.output?.format === "json"
+            ? new PartialJsonAccumulator()
+            : undefined;
+        for await (const event of stream) {
+          switch (event.type) {
+            case "response.output_text.delta": {
+              const data = json?.add(0, event.delta);
+              streamingCallback({
+                index: 0,
+                content:
+                  data !== undefined
+                    ? [{ text: event.delta }, { data }]
+                    : [{ text: event.delta }],
+              });
+              break;
+            }
+            case "response.reasoning_summary_text.delta":
+              streamingCallback({
+                index: 0,
+                content: [{ reasoning: event.delta }],
+              });
+              break;
+            case "response.output_item.done":
+              if (event.item.type === "function_call") {
+                streamingCallback({
+                  index: 0,
+                  content: fromResponsesOutputItem(event.item, request.tools),
+                });
+              }
+              break;
+          }
+        }
+        response = await stream.finalResponse();
+      } else {
+        response = await client.responses.create(body);
+        if (body.background) {
+          response = await waitForBackgroundResponse(
+            client,
+            response,
+            request.config?.backgroundPollIntervalMs,
+          );
+        }
+      }
+      return fromResponsesResponse(
+        response,
+        request.output?.format === "json",
+        request.output?.schema,
+        request.tools,
+      );
+    },
+  );
+}
+
+/**
+ * Defines one of the supported GPT models on the Responses API. The model is
+ * registered as `azure-openai/responses/<name>`, or
+ * `azure-openai/<resource>/responses/<name>` when `resource` is set.
+ */
+export function responsesModel(
+  ai: Genkit,
+  name: string,
+  client: AzureOpenAI,
+  deployment?: string,
+  resource?: string,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
+) {
+  const model = SUPPORTED_GPT_MODELS[name as keyof typeof SUPPORTED_GPT_MODELS];
+  if (!model) throw new Error(`Unsupported model: ${name}`);
+
+  return defineResponsesModel(
+    ai,
+    name,
+    {
+      ...model,
+      info: { ...model.info, label: `${model.info?.label} (Responses API)` },
+      configSchema: ResponsesConfigSchema,
+    },
+    client,
+    deployment,
+    modelId(`responses/${name}`, resource),
+    costs,
+    retry,
+  );
+}
+
+/**
+ * Defines a Responses API model backed by an arbitrary Azure deployment, e.g.
+ * a Responses-first model such as the codex or pro variants.
+ */
+export function defineAzureResponsesModel(
+  ai: Genkit,
+  client: AzureOpenAI,
+  options: AzureModelOptions,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
+) {
+  return defineResponsesModel(
+    ai,
+    options.name,
+    azureModelRef(options, ResponsesConfigSchema),
+    client,
+    options.deployment ?? options.name,
+    undefined,
+    costs,
+    retry,
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from "genkit";
+import type { ModelMiddlewareWithOptions } from "genkit/model";
+import { setCustomMetadataAttributes } from "genkit/tracing";
+import { APIConnectionError, APIError } from "openai";
+import { retryAfterMs } from "./utils.js";
+
+/**
+ * When and how often failed calls are retried.
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of attempts, including the first one. Set to 1 to
+   * disable retries.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Backoff delay before the first retry.
+   * @default 500
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Factor the backoff delay grows by after each retry.
+   * @default 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Upper bound of the backoff delay. When the service asks to wait longer
+   * than this, the error is thrown instead of retried.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomizes the backoff delays so that throttled clients do not retry in
+   * lockstep:
+   * - `full`: between 0 and the delay
+   * - `equal`: between half the delay and the delay
+   * - `none`: exactly the delay
+   * @default 'full'
+   */
+  jitter?: "full" | "equal" | "none";
+
+  /**
+   * HTTP statuses that are retried. Connection errors and timeouts are
+   * always retried.
+   * @default [408, 409, 429, 500, 502, 503, 504]
+   */
+  statuses?: number[];
+
+  /**
+   * Error codes that are retried regardless of the status, either API error
+   * codes (e.g. `rate_limit_exceeded`) or network error codes (e.g.
+   * `ECONNRESET`).
+   */
+  errorCodes?: string[];
+
+  /**
+   * Waits as long as the `retry-after-ms` or `retry-after` response headers
+   * ask, instead of the backoff delay.
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+}
+
+// Typed with the interface above, so the config schemas that embed it stay
+// within the size the compiler can emit in declarations.
+export const RetryOptionsSchema: z.ZodType<RetryOptions> = z.object({
+  maxAttempts: z.number().int().min(1).optional(),
+  initialDelayMs: z.number().min(0).optional(),
+  backoffMultiplier: z.number().min(1).optional(),
+  maxDelayMs: z.number().min(0).optional(),
+  jitter: z.enum(["full", "equal", "none"]).optional(),
+  statuses: z.array(z.number().int()).optional(),
+  errorCodes: z.array(z.string()).optional(),
+  respectRetryAfter: z.boolean().optional(),
+});
+
+const DEFAULT_STATUSES = [408, 409, 429, 500, 502, 503, 504];
+
+function errorCodes(error: unknown): unknown[] {
+  if (!error || typeof error !== "object") return [];
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  return [code, (cause as { code?: unknown } | undefined)?.code];
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Retries failed calls with jittered exponential backoff. The plugin applies
+ * one policy to every model and embedder, which each request can override
+ * with its `retry` config. The number of attempts of each call is recorded
+ * in the trace as `retryAttempts`.
+ */
+export class RetryPolicy {
+  constructor(private readonly options: RetryOptions = {}) {}
+
+  /**
+   * Model middleware that retries the calls of a model, merging the
+   * request's `retry` config over this policy. Streaming calls are only
+   * retried until their first chunk was emitted.
+   */
+  middleware(): ModelMiddlewareWithOptions {
+    return async (request, options, next) => {
+      let streamed = false;
+      const onChunk = options?.onChunk;
+      return this.run(
+        () =>
+          next(
+            request,
+            onChunk
+              ? {
+                  ...options,
+                  onChunk: (chunk) => {
+                    streamed = true;
+                    onChunk(chunk);
+                  },
+                }
+              : options,
+          ),
+        request.config?.retry,
+        () => !streamed,
+      );
+    };
+  }
+
+  /**
+   * Runs `fn`, retrying it while it fails with a retryable error and
+   * `canRetry` allows it.
+   */
+  async run<T>(
+    fn: () => Promise<T>,
+    overrides?: RetryOptions,
+    canRetry: () => boolean = () => true,
+  ): Promise<T> {
+    const options = { ...this.options, ...overrides };
+    const maxAttempts = options.maxAttempts ?? 3;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await fn();
+        setCustomMetadataAttributes({ retryAttempts: String(attempt) });
+        return result;
+      } catch (error) {
+        const delayMs =
+          attempt < maxAttempts &&
+          canRetry() &&
+          this.isRetryable(error, options)
+            ? this.delayMs(error, attempt, options)
+            : undefined;
+        if (delayMs === undefined) {
+          setCustomMetadataAttributes({ retryAttempts: String(attempt) });
+          throw error;
+        }
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  private isRetryable(error: unknown, options: RetryOptions): boolean {
+    if (options.errorCodes?.length) {
+      const codes = errorCodes(error);
+      if (options.errorCodes.some((code) => codes.includes(code))) return true;
+    }
+    if (error instanceof APIConnectionError) return true;
+    return (
+      error instanceof APIError &&
+      error.status !== undefined &&
+      (options.statuses ?? DEFAULT_STATUSES).includes(error.status)
+    );
+  }
+
+  /**
+   * Delay before the retry following `attempt`, or `undefined` when the
+   * service asked to wait longer than `maxDelayMs`.
+   */
+  private delayMs(
+    error: unknown,
+    attempt: number,
+    options: RetryOptions,
+  ): number | undefined {
+    const maxDelayMs = options.maxDelayMs ?? 30_000;
+    const retryAfter =
+      options.respectRetryAfter !== false && error instanceof APIError
+        ? retryAfterMs(error.headers)
+        : undefined;
+    if (retryAfter !== undefined) {
+      return retryAfter <= maxDelayMs ? retryAfter : undefined;
+    }
+    const backoff = Math.min(
+      (options.initialDelayMs ?? 500) *
+        (options.backoffMultiplier ?? 2) ** (attempt - 1),
+      maxDelayMs,
+    );
+    switch (options.jitter ?? "full") {
+      case "full":
+        return Math.random() * backoff;
+      case "equal":
+        return backoff / 2 + (Math.random() * backoff) / 2;
+      default:
+        return backoff;
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { APIConnectionError, APIError, AzureOpenAI } from "openai";
+import type { RateLimiter } from "./rate_limit.js";
+import { retryAfterMs } from "./utils.js";
+
+/**
+ * How a routed model picks the deployment for each call.
+ * - `priority`: always the healthy deployment with the lowest priority value
+ * - `round-robin`: rotate through healthy deployments
+ * - `weighted`: pick randomly, proportionally to each deployment's weight
+ *   (e.g. its TPM quota)
+ */
+export type RoutingStrategy = "priority" | "round-robin" | "weighted";
+
+/**
+ * A deployment a routed model can send requests to.
+ */
+export interface RouteTargetOptions {
+  /**
+   * Name of the Azure resource (see `PluginOptions.resources`) hosting the
+   * deployment. Defaults to the top-level resource.
+   */
+  resource?: string;
+
+  /**
+   * Deployment name. Defaults to the resource's mapping for the model, or
+   * the model name.
+   */
+  deployment?: string;
+
+  /**
+   * Relative share of traffic for the `weighted` strategy, e.g. the
+   * deployment's TPM quota.
+   * @default 1
+   */
+  weight?: number;
+
+  /**
+   * Order for the `priority` strategy. Lower values are tried first.
+   * @default 0
+   */
+  priority?: number;
+}
+
+/**
+ * Routing configuration for a model served by several deployments.
+ */
+export interface RouteOptions {
+  /**
+   * @default 'priority'
+   */
+  strategy?: RoutingStrategy;
+
+  /**
+   * Deployments serving the model.
+   */
+  targets: RouteTargetOptions[];
+
+  /**
+   * How long a deployment is skipped after it was throttled or failed, when
+   * the response carries no `retry-after` header.
+   * @default 10000
+   */
+  cooldownMs?: number;
+}
+
+/**
+ * A resolved deployment: the client of its resource and its name there.
+ */
+export interface RouteTarget extends Omit<RouteTargetOptions, "deployment"> {
+  client: AzureOpenAI;
+  deployment?: string;
+
+  /**
+   * Rate limiters of the resource's deployments, keyed by deployment name.
+   */
+  rateLimiters?: Map<string, RateLimiter>;
+}
+
+/**
+ * Result of a routed call, with the deployment that served it.
+ */
+export interface RoutedResult<T> {
+  result: T;
+  target: RouteTarget;
+  attempts: number;
+}
+
+/**
+ * Whether an error means the deployment is throttled or unavailable, so the
+ * request can be sent to another deployment.
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (error instanceof APIConnectionError) return true;
+  if (error instanceof APIError && error.status !== undefined) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
+/**
+ * Spreads calls over the deployments of a model and fails over to the next
+ * one when a deployment is throttled (429) or unavailable (5xx).
+ */
+export class DeploymentRouter {
+  private counter = 0;
+  private cooldowns = new Map<RouteTarget, number>();
+
+  constructor(
+    readonly targets: RouteTarget[],
+    readonly strategy: RoutingStrategy = "priority",
+    private readonly cooldownMs = 10_000,
+  ) {
+    if (!targets.length) {
+      throw new Error("A routed model needs at least one target deployment");
+    }
+  }
+
+  /**
+   * Runs `fn` against the deployments in routing order until one succeeds.
+   * `canFailover` is checked before failing over, e.g. to avoid retrying a
+   * stream that already emitted chunks.
+   */
+  async run<T>(
+    fn: (target: RouteTarget) => Promise<T>,
+    canFailover: () => boolean = () => true,
+  ): Promise<RoutedResult<T>> {
+    const candidates = this.order();
+    let attempts = 0;
+    for (const target of candidates) {
+      attempts++;
+      try {
+        return { result: await fn(target), target, attempts };
+      } catch (error) {
+        if (
+          !isFailoverError(error) ||
+          !canFailover() ||
+          attempts === candidates.length
+        ) {
+          throw error;
+        }
+        const waitMs =
+          (error instanceof APIError
+            ? retryAfterMs(error.headers)
+            : undefined) ?? this.cooldownMs;
+        this.cooldowns.set(target, Date.now() + waitMs);
+      }
+    }
+    // Unreachable: the last candidate either returns or throws.
+    throw new Error("No deployment available");
+  }
+
+  /**
+   * Orders the targets for one call. Healthy deployments come first in
+   * strategy order, followed by the ones cooling down, soonest first.
+   */
+  private order(): RouteTarget[] {
+    const now = Date.now();
+    const healthy = this.targets.filter(
+      (t) => (this.cooldowns.get(t) ?? 0) <= now,
+    );
+    const coolingDown = this.targets
+      .filter((t) => (this.cooldowns.get(t) ?? 0) > now)
+      .sort((a, b) => this.cooldowns.get(a)! - this.cooldowns.get(b)!);
+
+    switch (this.strategy) {
+      case "round-robin": {
+        const start = healthy.length ? this.counter++ % healthy.length : 0;
+        return [
+          ...healthy.slice(start),
+          ...healthy.slice(0, start),
+          ...coolingDown,
+        ];
+      }
+      case "weighted": {
+        const ordered: RouteTarget[] = [];
+        const remaining = [...healthy];
+        while (remaining.length) {
+          const total = remaining.reduce((sum, t) => sum + (t.weight ?? 1), 0);
+          let pick = Math.random() * total;
+          const index = remaining.findIndex((t) => (pick -= t.weight ?? 1) < 0);
+          ordered.push(...remaining.splice(index === -1 ? 0 : index, 1));
+        }
+        return [...ordered, ...coolingDown];
+      }
+      case "priority":
+        return [
+          ...healthy.sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0)),
+          ...coolingDown,
+        ];
+      default:
+        throw new Error(`Unknown routing strategy: ${this.strategy}`);
+    }
+  }
+}
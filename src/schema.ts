@@ -0,0 +1,363 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { parsePartialJson } from "genkit/extract";
+import type { ToolDefinition } from "genkit/model";
+import { StrictSchemaError } from "./errors.js";
+
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * Makes a schema also accept `null`.
+ */
+function toNullable(schema: JSONSchema): JSONSchema {
+  if (typeof schema.type === "string") {
+    return schema.type === "null"
+      ? schema
+      : { ...schema, type: [schema.type, "null"] };
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.includes("null")
+      ? schema
+      : { ...schema, type: [...schema.type, "null"] };
+  }
+  if (Array.isArray(schema.anyOf)) {
+    return (schema.anyOf as JSONSchema[]).some((s) => s.type === "null")
+      ? schema
+      : { ...schema, anyOf: [...schema.anyOf, { type: "null" }] };
+  }
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+/**
+ * Keywords strict mode rejects. They are dropped and, since they still carry
+ * useful guidance for the model, described in the schema description.
+ */
+const UNSUPPORTED_KEYWORDS = [
+  "format",
+  "default",
+  "minLength",
+  "maxLength",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "minProperties",
+  "maxProperties",
+];
+
+/**
+ * Constructs strict mode has no equivalent for.
+ */
+const UNSUPPORTED_CONSTRUCTS = [
+  "allOf",
+  "not",
+  "if",
+  "then",
+  "else",
+  "patternProperties",
+  "dependentSchemas",
+  "unevaluatedProperties",
+];
+
+/**
+ * Looks up a local `$ref` such as `#/$defs/Address` in the root schema.
+ */
+function lookupRef(root: JSONSchema, ref: string): JSONSchema | undefined {
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(segment)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    target = (target as Record<string, unknown> | undefined)?.[key];
+  }
+  return target && typeof target === "object"
+    ? (target as JSONSchema)
+    : undefined;
+}
+
+/**
+ * Resolves a local `$ref` against the root schema.
+ */
+function resolveRef(root: JSONSchema, ref: string, path: string): JSONSchema {
+  if (!ref.startsWith("#")) {
+    throw new StrictSchemaError(`remote $ref '${ref}' is not supported`, path);
+  }
+  const target = lookupRef(root, ref);
+  if (!target) {
+    throw new StrictSchemaError(`$ref '${ref}' cannot be resolved`, path);
+  }
+  return target;
+}
+
+function sanitize(
+  schema: JSONSchema,
+  root: JSONSchema,
+  path: string,
+  refs: string[],
+): JSONSchema {
+  if (typeof schema.$ref === "string") {
+    const ref = schema.$ref;
+    if (refs.includes(ref)) {
+      throw new StrictSchemaError(`recursive $ref '${ref}'`, path);
+    }
+    const rest = { ...schema };
+    delete rest.$ref;
+    return sanitize({ ...resolveRef(root, ref, path), ...rest }, root, path, [
+      ...refs,
+      ref,
+    ]);
+  }
+  for (const keyword of UNSUPPORTED_CONSTRUCTS) {
+    if (keyword in schema) {
+      throw new StrictSchemaError(`${keyword} is not supported`, path);
+    }
+  }
+
+  const result: JSONSchema = { ...schema };
+  delete result.$schema;
+  delete result.$defs;
+  delete result.definitions;
+
+  const hints: string[] = [];
+  for (const keyword of UNSUPPORTED_KEYWORDS) {
+    if (keyword in result) {
+      hints.push(`${keyword}: ${JSON.stringify(result[keyword])}`);
+      delete result[keyword];
+    }
+  }
+  if (hints.length) {
+    result.description = [result.description, `(${hints.join(", ")})`]
+      .filter(Boolean)
+      .join(" ");
+  }
+  if ("const" in result) {
+    result.enum = [result.const];
+    delete result.const;
+  }
+  if (Array.isArray(result.oneOf)) {
+    // oneOf is not supported in strict mode; anyOf is the closest match.
+    result.anyOf = result.oneOf;
+    delete result.oneOf;
+  }
+  if (
+    result.type === undefined &&
+    result.enum === undefined &&
+    result.anyOf === undefined
+  ) {
+    throw new StrictSchemaError("a type is required", path);
+  }
+
+  if (result.properties && typeof result.properties === "object") {
+    const required = new Set((result.required as string[] | undefined) ?? []);
+    const properties: Record<string, JSONSchema> = {};
+    for (const [key, value] of Object.entries(
+      result.properties as Record<string, JSONSchema>,
+    )) {
+      const strict = sanitize(value, root, `${path}.properties.${key}`, refs);
+      properties[key] = required.has(key) ? strict : toNullable(strict);
+    }
+    result.properties = properties;
+    result.required = Object.keys(properties);
+  } else if (result.type === "object") {
+    if (
+      result.additionalProperties &&
+      typeof result.additionalProperties === "object"
+    ) {
+      throw new StrictSchemaError(
+        "objects with arbitrary keys (records) are not supported",
+        path,
+      );
+    }
+    result.properties = {};
+    result.required = [];
+  }
+  if (result.properties) {
+    result.additionalProperties = false;
+  }
+
+  if (Array.isArray(result.items)) {
+    throw new StrictSchemaError("tuples are not supported", `${path}.items`);
+  }
+  if (result.items && typeof result.items === "object") {
+    result.items = sanitize(
+      result.items as JSONSchema,
+      root,
+      `${path}.items`,
+      refs,
+    );
+  }
+  if (Array.isArray(result.anyOf)) {
+    result.anyOf = (result.anyOf as JSONSchema[]).map((s, i) =>
+      sanitize(s, root, `${path}.anyOf[${i}]`, refs),
+    );
+  }
+  return result;
+}
+
+/**
+ * Rewrites a JSON schema into the subset accepted by strict structured
+ * outputs and strict function calling:
+ * - every object lists all of its properties as required and sets
+ *   `additionalProperties: false`, and properties that were optional become
+ *   nullable instead
+ * - local `$ref`s are inlined, and `oneOf` and `const` are rewritten as
+ *   `anyOf` and `enum`
+ * - keywords such as `format`, `default` or `minimum` are dropped and
+ *   appended to the description
+ *
+ * Throws a `StrictSchemaError` naming the offending path, relative to `path`,
+ * for constructs that cannot be expressed, such as `allOf`, records or
+ * recursive `$ref`s.
+ */
+export function toStrictJsonSchema(schema: JSONSchema, path = "$"): JSONSchema {
+  const result = sanitize(schema, schema, path, []);
+  if (result.type !== "object") {
+    throw new StrictSchemaError("the root schema must be an object", path);
+  }
+  return result;
+}
+
+/**
+ * Like `toStrictJsonSchema`, but returns `undefined` for schemas strict mode
+ * cannot express, e.g. an array root or records, so that output schemas can
+ * fall back to plain JSON mode.
+ */
+export function tryStrictJsonSchema(
+  schema: JSONSchema,
+): JSONSchema | undefined {
+  try {
+    return toStrictJsonSchema(schema);
+  } catch (e) {
+    if (e instanceof StrictSchemaError) return undefined;
+    throw e;
+  }
+}
+
+/**
+ * Instructions describing an output schema in the prompt, as Genkit gives
+ * models without constrained output. Used when strict mode cannot express
+ * the schema; they also mention JSON, which JSON mode requires.
+ */
+export function outputInstructions(schema: JSONSchema): string {
+  return `Output should be in JSON format and conform to the following schema:
+
+\`\`\`
+${JSON.stringify(schema)}
+\`\`\`
+`;
+}
+
+function acceptsNull(schema: JSONSchema): boolean {
+  if (schema.type === "null" || schema.nullable === true) return true;
+  if (Array.isArray(schema.type) && schema.type.includes("null")) return true;
+  const branches = schema.anyOf ?? schema.oneOf;
+  return (
+    Array.isArray(branches) &&
+    (branches as JSONSchema[]).some((branch) => acceptsNull(branch))
+  );
+}
+
+/**
+ * Removes the `null` values strict mode returns for properties that were
+ * optional in `schema`, the schema given to `toStrictJsonSchema`, so that
+ * `value` validates against it again. Properties that accept `null` keep
+ * their values. `value` is modified in place and returned.
+ */
+export function removeOptionalNulls(
+  value: unknown,
+  schema: JSONSchema,
+  root: JSONSchema = schema,
+): unknown {
+  if (typeof schema.$ref === "string") {
+    const target = schema.$ref.startsWith("#")
+      ? lookupRef(root, schema.$ref)
+      : undefined;
+    if (target) removeOptionalNulls(value, target, root);
+  }
+  for (const branch of [
+    ...((schema.anyOf as JSONSchema[] | undefined) ?? []),
+    ...((schema.oneOf as JSONSchema[] | undefined) ?? []),
+  ]) {
+    removeOptionalNulls(value, branch, root);
+  }
+  if (Array.isArray(value)) {
+    if (schema.items && typeof schema.items === "object") {
+      for (const item of value) {
+        removeOptionalNulls(item, schema.items as JSONSchema, root);
+      }
+    }
+    return value;
+  }
+  if (
+    !value ||
+    typeof value !== "object" ||
+    !schema.properties ||
+    typeof schema.properties !== "object"
+  ) {
+    return value;
+  }
+  const object = value as Record<string, unknown>;
+  const required = new Set((schema.required as string[] | undefined) ?? []);
+  for (const [key, property] of Object.entries(
+    schema.properties as Record<string, JSONSchema>,
+  )) {
+    if (!(key in object)) continue;
+    const resolved =
+      typeof property.$ref === "string" && property.$ref.startsWith("#")
+        ? (lookupRef(root, property.$ref) ?? property)
+        : property;
+    if (object[key] === null && !required.has(key) && !acceptsNull(resolved)) {
+      delete object[key];
+    } else {
+      removeOptionalNulls(object[key], property, root);
+    }
+  }
+  return value;
+}
+
+/**
+ * Parses the arguments of a call to the tool `name`, removing the `null`
+ * values strict function calling sends for the optional arguments of its
+ * input schema in `tools`. With `partial`, arguments that are still being
+ * streamed are parsed as far as they have arrived, or `undefined` if they
+ * can't be parsed yet.
+ */
+export function parseToolInput(
+  name: string,
+  args: string,
+  tools?: ToolDefinition[],
+  partial = false,
+): unknown {
+  let input: unknown;
+  if (!partial) {
+    input = args ? JSON.parse(args) : args;
+  } else {
+    try {
+      input = parsePartialJson(args);
+    } catch {
+      input = undefined;
+    }
+  }
+  const schema = tools?.find((tool) => tool.name === name)?.inputSchema;
+  return schema ? removeOptionalNulls(input, schema) : input;
+}
@@ -0,0 +1,133 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ToolRequestPart } from "genkit";
+import { parsePartialJson } from "genkit/extract";
+import type { ToolDefinition } from "genkit/model";
+import type {
+  ChatCompletionChunk,
+  ChatCompletionMessageFunctionToolCall,
+} from "openai/resources/index";
+import { parseToolInput } from "./schema.js";
+
+/**
+ * Assembles the tool calls of a chat completions stream. Each chunk only
+ * carries a fragment of a tool call (the id and name arrive first, the
+ * arguments are split over many chunks), keyed by the tool call index within
+ * its choice. As in `finalChatCompletion()`, the id and name are replaced by
+ * the latest fragment that carries them and the arguments are concatenated,
+ * so the calls flushed here match the final completion.
+ */
+export class ToolCallAccumulator {
+  private readonly pending = new Map<
+    number,
+    Map<number, ChatCompletionMessageFunctionToolCall>
+  >();
+
+  /**
+   * Merges the tool call fragments of a chunk choice. Returns whether the
+   * choice carried any.
+   */
+  add(choice: ChatCompletionChunk.Choice): boolean {
+    if (!choice.delta?.tool_calls?.length) return false;
+    let calls = this.pending.get(choice.index);
+    if (!calls) {
+      calls = new Map();
+      this.pending.set(choice.index, calls);
+    }
+    for (const delta of choice.delta.tool_calls) {
+      const call = calls.get(delta.index) ?? {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      };
+      if (delta.id) call.id = delta.id;
+      if (delta.function?.name) call.function.name = delta.function.name;
+      if (delta.function?.arguments) {
+        call.function.arguments += delta.function.arguments;
+      }
+      calls.set(delta.index, call);
+    }
+    return true;
+  }
+
+  /**
+   * Previews of the tool calls of a choice that are still being streamed,
+   * with their arguments parsed as far as they have arrived. As for complete
+   * calls, the `null` values strict mode sends for the optional arguments of
+   * `tools` are removed.
+   */
+  preview(index: number, tools?: ToolDefinition[]): ToolRequestPart[] {
+    return [...(this.pending.get(index)?.values() ?? [])]
+      .filter((call) => call.function.name)
+      .map((call) => ({
+        toolRequest: {
+          name: call.function.name,
+          ref: call.id,
+          input: parseToolInput(
+            call.function.name,
+            call.function.arguments,
+            tools,
+            true,
+          ),
+          partial: true,
+        },
+      }));
+  }
+
+  /**
+   * Removes and returns the complete tool calls of a choice, in index order.
+   */
+  flush(index: number): ChatCompletionMessageFunctionToolCall[] {
+    const calls = this.pending.get(index);
+    this.pending.delete(index);
+    return [...(calls?.entries() ?? [])]
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => call);
+  }
+
+  /**
+   * Indexes of the choices that still have tool calls pending, e.g. because
+   * the stream ended without a finish reason.
+   */
+  pendingChoices(): number[] {
+    return [...this.pending.keys()];
+  }
+}
+
+/**
+ * Accumulates the streamed text of JSON output per choice, so each chunk can
+ * carry the output parsed so far.
+ */
+export class PartialJsonAccumulator {
+  private readonly text = new Map<number, string>();
+
+  /**
+   * Appends a text delta to a choice and returns its output parsed as far as
+   * it has arrived, or `undefined` when nothing can be parsed yet.
+   */
+  add(index: number, delta: string): unknown {
+    const text = (this.text.get(index) ?? "") + delta;
+    this.text.set(index, text);
+    try {
+      return parsePartialJson(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -21,6 +21,9 @@ import type { ModelAction } from "genkit/model";
 import { modelRef } from "genkit/model";
 import type AzureOpenAI from "openai";
 import { type SpeechCreateParams } from "openai/resources/audio/index";
+import type { CostTracker } from "./pricing.js";
+import { RetryOptionsSchema, type RetryPolicy } from "./retry.js";
+import { modelId, modelMiddleware } from "./utils.js";
 
 export const TTSConfigSchema = GenerationCommonConfigSchema.extend({
   voice: z
@@ -31,6 +34,10 @@ export const TTSConfigSchema = GenerationCommonConfigSchema.extend({
   response_format: z
     .enum(["mp3", "opus", "aac", "flac", "wav", "pcm"])
     .optional(),
+  /**
+   * Retry policy of this request, merged over the plugin's `retry` option.
+   */
+  retry: RetryOptionsSchema.optional(),
 });
 
 export const tts1 = modelRef({
@@ -99,6 +106,7 @@ function toTTSRequest(
 
 function toGenerateResponse(
   result: Buffer,
+  input: string,
   responseFormat: z.infer<typeof TTSConfigSchema>["response_format"] = "mp3",
 ): GenerateResponseData {
   const mediaType = RESPONSE_FORMAT_MEDIA_TYPES[responseFormat];
@@ -120,6 +128,7 @@ function toGenerateResponse(
         },
       },
     ],
+    usage: { inputCharacters: input.length, outputAudioFiles: 1 },
   };
 }
 
@@ -127,23 +136,31 @@ export function ttsModel(
   ai: Genkit,
   name: string,
   client: AzureOpenAI,
+  deployment?: string,
+  resource?: string,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
 ): ModelAction<typeof TTSConfigSchema> {
-  const modelId = `azure-openai/${name}`;
   const model = SUPPORTED_TTS_MODELS[name as keyof typeof SUPPORTED_TTS_MODELS];
   if (!model) throw new Error(`Unsupported model: ${name}`);
 
   return ai.defineModel<typeof TTSConfigSchema>(
     {
-      name: modelId,
+      name: modelId(name, resource),
       ...model.info,
       configSchema: model.configSchema,
+      use: modelMiddleware(name, costs, retry),
     },
     async (request) => {
-      const ttsRequest = toTTSRequest(name, request);
+      const ttsRequest = toTTSRequest(deployment ?? name, request);
       const result = await client.audio.speech.create(ttsRequest);
       const resultArrayBuffer = await result.arrayBuffer();
       const resultBuffer = Buffer.from(new Uint8Array(resultArrayBuffer));
-      return toGenerateResponse(resultBuffer, ttsRequest.response_format);
+      return toGenerateResponse(
+        resultBuffer,
+        ttsRequest.input,
+        ttsRequest.response_format,
+      );
     },
   );
 }
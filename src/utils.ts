@@ -0,0 +1,94 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Part } from "genkit";
+import type { ModelMiddlewareArgument } from "genkit/model";
+import type { CostTracker } from "./pricing.js";
+import type { RetryPolicy } from "./retry.js";
+
+/**
+ * Builds the Genkit action name for a model, namespaced by the Azure
+ * resource that serves it when one is given.
+ */
+export function modelId(name: string, resource?: string): string {
+  return resource ? `azure-openai/${resource}/${name}` : `azure-openai/${name}`;
+}
+
+/**
+ * Middleware of a model action. Costs are tracked around the retries, so a
+ * call is checked against its budget and costed once.
+ */
+export function modelMiddleware(
+  model: string,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
+): ModelMiddlewareArgument[] | undefined {
+  const use: ModelMiddlewareArgument[] = [];
+  if (costs) use.push(costs.middleware(model));
+  if (retry) use.push(retry.middleware());
+  return use.length ? use : undefined;
+}
+
+/**
+ * Reads how long the service asked us to wait before the next request from
+ * the `retry-after-ms` or `retry-after` response headers.
+ */
+export function retryAfterMs(headers?: Headers | null): number | undefined {
+  const retryAfterMillis = headers?.get("retry-after-ms");
+  if (retryAfterMillis) {
+    const millis = parseFloat(retryAfterMillis);
+    if (!Number.isNaN(millis)) return millis;
+  }
+  const retryAfter = headers?.get("retry-after");
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Content type of a media part, taken from the part or else from its data
+ * URL.
+ */
+export function mediaContentType(media: {
+  url: string;
+  contentType?: string;
+}): string | undefined {
+  return media.contentType || /^data:([^;,]+)[;,]/.exec(media.url)?.[1];
+}
+
+/**
+ * Base64 payload of a data URL, or `undefined` for any other URL.
+ */
+export function dataUrlData(url: string): string | undefined {
+  return /^data:[^,]*;base64,(.*)$/s.exec(url)?.[1];
+}
+
+/**
+ * File name sent along with a document, from the part's `filename` metadata
+ * when present.
+ */
+export function mediaFilename(part: Part, contentType?: string): string {
+  if (typeof part.metadata?.filename === "string") {
+    return part.metadata.filename;
+  }
+  return contentType === "application/pdf" ? "document.pdf" : "document";
+}
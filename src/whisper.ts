@@ -16,7 +16,12 @@
  * limitations under the License.
  */
 
-import type { GenerateRequest, GenerateResponseData, Genkit } from "genkit";
+import type {
+  GenerateRequest,
+  GenerateResponseData,
+  GenerationUsage,
+  Genkit,
+} from "genkit";
 import { GenerationCommonConfigSchema, Message, z } from "genkit";
 import type { ModelAction } from "genkit/model";
 import { modelRef } from "genkit/model";
@@ -24,7 +29,11 @@ import type AzureOpenAI from "openai";
 import {
   type Transcription,
   type TranscriptionCreateParamsNonStreaming,
+  type TranscriptionVerbose,
 } from "openai/resources/audio/index";
+import type { CostTracker } from "./pricing.js";
+import { RetryOptionsSchema, type RetryPolicy } from "./retry.js";
+import { modelId, modelMiddleware } from "./utils.js";
 
 export const Whisper1ConfigSchema = GenerationCommonConfigSchema.extend({
   language: z.string().optional(),
@@ -32,6 +41,10 @@ export const Whisper1ConfigSchema = GenerationCommonConfigSchema.extend({
   response_format: z
     .enum(["json", "text", "srt", "verbose_json", "vtt"])
     .optional(),
+  /**
+   * Retry policy of this request, merged over the plugin's `retry` option.
+   */
+  retry: RetryOptionsSchema.optional(),
 });
 
 export const whisper1 = modelRef({
@@ -51,6 +64,7 @@ export const whisper1 = modelRef({
 
 function toWhisper1Request(
   request: GenerateRequest<typeof Whisper1ConfigSchema>,
+  deployment = "whisper-1",
 ): TranscriptionCreateParamsNonStreaming {
   const message = new Message(request.messages[0]);
   const media = message.media;
@@ -67,7 +81,7 @@ function toWhisper1Request(
       media.url.slice("data:".length, media.url.indexOf(";")),
   });
   const options: TranscriptionCreateParamsNonStreaming = {
-    model: "whisper-1",
+    model: deployment,
     file: mediaFile,
     prompt: message.text,
     temperature: request.config?.temperature,
@@ -99,6 +113,26 @@ function toWhisper1Request(
   return options;
 }
 
+function toUsage(result: Transcription | string): GenerationUsage {
+  const usage: GenerationUsage = { inputAudioFiles: 1 };
+  if (typeof result === "string") return usage;
+  if (result.usage?.type === "tokens") {
+    usage.inputTokens = result.usage.input_tokens;
+    usage.outputTokens = result.usage.output_tokens;
+    usage.totalTokens = result.usage.total_tokens;
+  }
+  // Billed by the minute: the duration is in the usage, or in verbose_json
+  // responses.
+  const seconds =
+    result.usage?.type === "duration"
+      ? result.usage.seconds
+      : (result as Partial<TranscriptionVerbose>).duration;
+  if (seconds !== undefined) {
+    usage.custom = { inputAudioSeconds: seconds };
+  }
+  return usage;
+}
+
 function toGenerateResponse(
   result: Transcription | string,
 ): GenerateResponseData {
@@ -117,22 +151,28 @@ function toGenerateResponse(
         },
       },
     ],
+    usage: toUsage(result),
   };
 }
 
 export function whisper1Model(
   ai: Genkit,
   client: AzureOpenAI,
+  deployment?: string,
+  resource?: string,
+  costs?: CostTracker,
+  retry?: RetryPolicy,
 ): ModelAction<typeof Whisper1ConfigSchema> {
   return ai.defineModel<typeof Whisper1ConfigSchema>(
     {
-      name: whisper1.name,
+      name: modelId("whisper-1", resource),
       ...whisper1.info,
       configSchema: whisper1.configSchema,
+      use: modelMiddleware("whisper-1", costs, retry),
     },
     async (request) => {
       const result = await client.audio.transcriptions.create(
-        toWhisper1Request(request),
+        toWhisper1Request(request, deployment),
       );
       return toGenerateResponse(result);
     },
@@ -0,0 +1,261 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { genkit, z } from "genkit";
+import { describe, it } from "node:test";
+import { toOpenAiMessages, toOpenAiRequestBody } from "../src/gpt.js";
+import { azureOpenAI, type PluginOptions } from "../src/index.js";
+
+type Body = Record<string, unknown>;
+
+/**
+ * A Genkit instance whose plugin calls `reply` instead of Azure, recording
+ * the request bodies.
+ */
+function mockGenkit(
+  reply: (body: Body) => unknown,
+  options: Partial<PluginOptions> = {},
+) {
+  const requests: Body[] = [];
+  const fetch = async (_url: unknown, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body));
+    requests.push(body);
+    const result = reply(body);
+    if (result instanceof Response) return result;
+    if (Array.isArray(result)) {
+      const events = result.map(
+        (chunk) => `data: ${JSON.stringify(chunk)}\n\n`,
+      );
+      return new Response(events.join("") + "data: [DONE]\n\n", {
+        headers: { "content-type": "text/event-stream" },
+      });
+    }
+    return Response.json(result);
+  };
+  const ai = genkit({
+    plugins: [
+      azureOpenAI({
+        endpoint: "https://example.openai.azure.com",
+        apiKey: "key",
+        apiVersion: "2024-10-21",
+        fetch,
+        retry: { maxAttempts: 1 },
+        ...options,
+      }),
+    ],
+  });
+  return { ai, requests };
+}
+
+function completion(content: string) {
+  return {
+    id: "chatcmpl",
+    object: "chat.completion",
+    created: 0,
+    model: "gpt-4o",
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content },
+        finish_reason: "stop",
+      },
+    ],
+    usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+  };
+}
+
+function chunk(index: number, content: string, finished = false) {
+  return {
+    id: "chatcmpl",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "gpt-4o",
+    choices: [
+      {
+        index,
+        delta: { role: "assistant", content },
+        finish_reason: finished ? "stop" : null,
+      },
+    ],
+  };
+}
+
+describe("chat models", () => {
+  it("streams only the first of several candidates", async () => {
+    const { ai } = mockGenkit(() => [
+      chunk(0, "AAA"),
+      chunk(1, "BBB"),
+      chunk(0, "aaa", true),
+      chunk(1, "bbb", true),
+    ]);
+    const { stream, response } = ai.generateStream({
+      model: "azure-openai/gpt-4o",
+      prompt: "Hi",
+      config: { candidateCount: 2 },
+    });
+    let streamed = "";
+    for await (const part of stream) streamed += part.text;
+    assert.strictEqual(streamed, "AAAaaa");
+    assert.strictEqual((await response).text, "AAAaaa");
+  });
+
+  it("sends strict json_schema output for object schemas", async () => {
+    const { ai, requests } = mockGenkit(() => completion('{"a":"x"}'));
+    const { output } = await ai.generate({
+      model: "azure-openai/gpt-4o",
+      prompt: "Hi",
+      output: { schema: z.object({ a: z.string() }) },
+    });
+    assert.deepStrictEqual(output, { a: "x" });
+    assert.strictEqual(
+      (requests[0].response_format as { type: string }).type,
+      "json_schema",
+    );
+  });
+
+  it("falls back to JSON mode with instructions for an array root", async () => {
+    const { ai, requests } = mockGenkit(() => completion('[{"a":"apple"}]'));
+    const { output } = await ai.generate({
+      model: "azure-openai/gpt-4o",
+      prompt: "List fruits",
+      output: { schema: z.array(z.object({ a: z.string() })) },
+    });
+    assert.deepStrictEqual(output, [{ a: "apple" }]);
+    assert.deepStrictEqual(requests[0].response_format, {
+      type: "json_object",
+    });
+    const [message] = requests[0].messages as {
+      role: string;
+      content: { type: string; text: string }[];
+    }[];
+    assert.strictEqual(message.role, "user");
+    assert.strictEqual(message.content[0].text, "List fruits");
+    assert.match(message.content[1].text, /JSON format/);
+    assert.match(message.content[1].text, /"type":"array"/);
+  });
+});
+
+describe("rate limits", () => {
+  it("syncs with the quota headers of a throttled stream", async () => {
+    let calls = 0;
+    const { ai } = mockGenkit(
+      () =>
+        calls++
+          ? completion("Hi")
+          : Response.json(
+              { error: { message: "Too many requests" } },
+              {
+                status: 429,
+                headers: { "x-ratelimit-remaining-tokens": "0" },
+              },
+            ),
+      { rateLimits: { "gpt-4o": { tpm: 1000 } } },
+    );
+    await assert.rejects(
+      ai.generate({
+        model: "azure-openai/gpt-4o",
+        prompt: "Hi",
+        onChunk: () => {},
+      }),
+    );
+    // The bucket is empty, so the next call waits for its estimated tokens
+    // to refill, at 1000 tokens per minute.
+    const start = Date.now();
+    await ai.generate({ model: "azure-openai/gpt-4o", prompt: "Hi" });
+    assert.ok(Date.now() - start >= 100, `waited ${Date.now() - start}ms`);
+  });
+});
+
+describe("toOpenAiMessages", () => {
+  const image = { media: { url: "https://example.com/a.png" } };
+
+  it("forwards assistant media after the responses to its tool calls", () => {
+    const messages = toOpenAiMessages([
+      { role: "user", content: [{ text: "Hi" }] },
+      {
+        role: "model",
+        content: [
+          image,
+          { toolRequest: { name: "look", ref: "1", input: {} } },
+          { toolRequest: { name: "look", ref: "2", input: {} } },
+        ],
+      },
+      {
+        role: "tool",
+        content: [{ toolResponse: { name: "look", ref: "1", output: "a" } }],
+      },
+      {
+        role: "tool",
+        content: [{ toolResponse: { name: "look", ref: "2", output: "b" } }],
+      },
+      { role: "model", content: [{ text: "Done" }] },
+    ]);
+    assert.deepStrictEqual(
+      messages.map((m) => m.role),
+      ["user", "assistant", "tool", "tool", "user", "assistant"],
+    );
+    assert.deepStrictEqual(messages[4].content, [
+      {
+        type: "image_url",
+        image_url: { url: "https://example.com/a.png", detail: "auto" },
+      },
+    ]);
+  });
+
+  it("forwards media of other messages right after them", () => {
+    const messages = toOpenAiMessages([
+      { role: "system", content: [{ text: "Be brief" }, image] },
+      { role: "model", content: [{ text: "Look" }, image] },
+      { role: "user", content: [{ text: "Hi" }] },
+    ]);
+    assert.deepStrictEqual(
+      messages.map((m) => m.role),
+      ["system", "user", "assistant", "user", "user"],
+    );
+  });
+});
+
+describe("toOpenAiRequestBody", () => {
+  const messages = [
+    { role: "system" as const, content: [{ text: "Be brief." }] },
+    { role: "user" as const, content: [{ text: "Hi" }] },
+  ];
+
+  it("sends system instructions as developer messages to reasoning models", () => {
+    assert.deepStrictEqual(toOpenAiRequestBody("o1", { messages }).messages, [
+      { role: "developer", content: "Be brief." },
+      { role: "user", content: [{ type: "text", text: "Hi" }] },
+    ]);
+  });
+
+  it("folds system instructions into the first user message for o1-mini", () => {
+    assert.deepStrictEqual(
+      toOpenAiRequestBody("o1-mini", { messages }).messages,
+      [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Be brief." },
+            { type: "text", text: "Hi" },
+          ],
+        },
+      ],
+    );
+  });
+});
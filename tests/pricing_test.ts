@@ -0,0 +1,65 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { DEFAULT_PRICING, estimateCost } from "../src/pricing.js";
+
+const close = (actual: number, expected: number) =>
+  assert.ok(
+    Math.abs(actual - expected) < 1e-12,
+    `expected ${expected}, got ${actual}`,
+  );
+
+describe("estimateCost", () => {
+  it("prices input, cached input and output tokens per million", () => {
+    close(
+      estimateCost(DEFAULT_PRICING["gpt-4o"], {
+        inputTokens: 1_000_000,
+        cachedContentTokens: 400_000,
+        outputTokens: 100_000,
+      }),
+      0.6 * 2.5 + 0.4 * 1.25 + 0.1 * 10,
+    );
+  });
+
+  it("prices audio tokens separately", () => {
+    close(
+      estimateCost(DEFAULT_PRICING["gpt-4o-audio-preview"], {
+        inputTokens: 1_000_000,
+        outputTokens: 1_000_000,
+        custom: { inputAudioTokens: 500_000, outputAudioTokens: 250_000 },
+      }),
+      0.5 * 2.5 + 0.5 * 40 + 0.75 * 10 + 0.25 * 80,
+    );
+  });
+
+  it("prices images, audio minutes and characters", () => {
+    close(estimateCost(DEFAULT_PRICING["dall-e-3"], { outputImages: 2 }), 0.08);
+    close(
+      estimateCost(DEFAULT_PRICING["whisper-1"], {
+        custom: { inputAudioSeconds: 90 },
+      }),
+      0.009,
+    );
+    close(
+      estimateCost(DEFAULT_PRICING["tts-1"], { inputCharacters: 1000 }),
+      0.015,
+    );
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { estimateTokens, RateLimiter } from "../src/rate_limit.js";
+
+// Lets the resolved acquisitions run their callbacks.
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout", "Date"] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  function track(promise: Promise<void>) {
+    const state = { done: false };
+    promise.then(() => (state.done = true));
+    return state;
+  }
+
+  it("admits calls while the bucket has quota, then waits for it to refill", async () => {
+    const limiter = new RateLimiter({ tpm: 1000 });
+    const first = track(limiter.acquire(600));
+    const second = track(limiter.acquire(600));
+    await settle();
+    assert.deepStrictEqual([first.done, second.done], [true, false]);
+    // 200 missing tokens refill in 12 seconds.
+    mock.timers.tick(11_000);
+    await settle();
+    assert.strictEqual(second.done, false);
+    mock.timers.tick(1_000);
+    await settle();
+    assert.strictEqual(second.done, true);
+  });
+
+  it("admits calls in arrival order", async () => {
+    const limiter = new RateLimiter({ tpm: 1000 });
+    await limiter.acquire(1000);
+    const large = track(limiter.acquire(900));
+    const small = track(limiter.acquire(10));
+    mock.timers.tick(1_000);
+    await settle();
+    assert.deepStrictEqual([large.done, small.done], [false, false]);
+    mock.timers.tick(53_000);
+    await settle();
+    assert.deepStrictEqual([large.done, small.done], [true, false]);
+  });
+
+  it("limits requests per minute, by default 6 per 1000 TPM", async () => {
+    const limiter = new RateLimiter({ tpm: 1000 });
+    for (let i = 0; i < 6; i++) await limiter.acquire(1);
+    const seventh = track(limiter.acquire(1));
+    await settle();
+    assert.strictEqual(seventh.done, false);
+    mock.timers.tick(10_000);
+    await settle();
+    assert.strictEqual(seventh.done, true);
+  });
+
+  it("gives back the tokens an estimate reserved but the call did not use", async () => {
+    const limiter = new RateLimiter({ tpm: 1000 });
+    await limiter.acquire(1000);
+    const next = track(limiter.acquire(500));
+    limiter.reconcile(1000, 400);
+    await settle();
+    assert.strictEqual(next.done, true);
+  });
+
+  it("syncs with the remaining quota reported by the service", async () => {
+    const limiter = new RateLimiter({ tpm: 1000 });
+    limiter.reconcile(
+      0,
+      undefined,
+      new Headers({ "x-ratelimit-remaining-tokens": "0" }),
+    );
+    const next = track(limiter.acquire(100));
+    await settle();
+    assert.strictEqual(next.done, false);
+    mock.timers.tick(6_000);
+    await settle();
+    assert.strictEqual(next.done, true);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("counts the prompt and the maximum output of each candidate", () => {
+    assert.strictEqual(
+      estimateTokens({
+        model: "gpt-4o",
+        messages: [{ role: "user", content: "a".repeat(400) }],
+        max_tokens: 50,
+        n: 2,
+      }),
+      // 400 characters plus {"role":"user"}, 4 characters per token.
+      Math.ceil((400 + 15) / 4) + 100,
+    );
+  });
+});
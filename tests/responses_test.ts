@@ -0,0 +1,47 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { toResponsesRequestBody } from "../src/responses.js";
+
+describe("toResponsesRequestBody", () => {
+  const schema = {
+    type: "array",
+    items: { type: "object", properties: { a: { type: "string" } } },
+  };
+
+  it("falls back to JSON mode with instructions for an array root", () => {
+    const body = toResponsesRequestBody("gpt-4o", {
+      messages: [{ role: "user", content: [{ text: "List fruits" }] }],
+      output: { format: "json", schema, constrained: true },
+    });
+    assert.deepStrictEqual(body.text, { format: { type: "json_object" } });
+    assert.match(body.instructions!, /JSON format/);
+    assert.match(body.instructions!, /"type":"array"/);
+  });
+
+  it("sends strict json_schema output for object schemas", () => {
+    const body = toResponsesRequestBody("gpt-4o", {
+      messages: [{ role: "user", content: [{ text: "Hi" }] }],
+      output: { format: "json", schema: { type: "object" } },
+    });
+    assert.strictEqual(body.text?.format?.type, "json_schema");
+    assert.strictEqual(body.instructions, undefined);
+  });
+});
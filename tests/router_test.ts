@@ -0,0 +1,113 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { APIError, type AzureOpenAI } from "openai";
+import { DeploymentRouter, type RouteTarget } from "../src/router.js";
+
+function target(deployment: string, priority?: number): RouteTarget {
+  return { client: {} as AzureOpenAI, deployment, priority };
+}
+
+function apiError(status: number, headers: Record<string, string> = {}) {
+  return APIError.generate(status, {}, "failed", new Headers(headers));
+}
+
+describe("DeploymentRouter", () => {
+  it("fails over to the next deployment when one is throttled", async () => {
+    const router = new DeploymentRouter([target("a", 1), target("b", 2)]);
+    const calls: string[] = [];
+    const {
+      result,
+      target: served,
+      attempts,
+    } = await router.run(async ({ deployment }) => {
+      calls.push(deployment!);
+      if (deployment === "a") throw apiError(429);
+      return "ok";
+    });
+    assert.deepStrictEqual(
+      [result, served.deployment, attempts, calls],
+      ["ok", "b", 2, ["a", "b"]],
+    );
+  });
+
+  it("skips a throttled deployment while it cools down", async () => {
+    const router = new DeploymentRouter([target("a", 1), target("b", 2)]);
+    let throttled = true;
+    const run = () =>
+      router.run(async ({ deployment }) => {
+        if (deployment === "a" && throttled) {
+          throttled = false;
+          throw apiError(429, { "retry-after": "60" });
+        }
+        return deployment;
+      });
+    await run();
+    assert.strictEqual((await run()).result, "b");
+  });
+
+  it("does not fail over on client errors", async () => {
+    const router = new DeploymentRouter([target("a"), target("b")]);
+    const calls: string[] = [];
+    await assert.rejects(
+      router.run(async ({ deployment }) => {
+        calls.push(deployment!);
+        throw apiError(400);
+      }),
+      (e: unknown) => e instanceof APIError && e.status === 400,
+    );
+    assert.deepStrictEqual(calls, ["a"]);
+  });
+
+  it("does not fail over when canFailover says no", async () => {
+    const router = new DeploymentRouter([target("a"), target("b")]);
+    await assert.rejects(
+      router.run(
+        async () => {
+          throw apiError(503);
+        },
+        () => false,
+      ),
+      (e: unknown) => e instanceof APIError && e.status === 503,
+    );
+  });
+
+  it("throws the error of the last deployment when all fail", async () => {
+    const router = new DeploymentRouter([target("a"), target("b")]);
+    await assert.rejects(
+      router.run(async ({ deployment }) => {
+        throw apiError(deployment === "a" ? 429 : 500);
+      }),
+      (e: unknown) => e instanceof APIError && e.status === 500,
+    );
+  });
+
+  it("rotates through the deployments round-robin", async () => {
+    const router = new DeploymentRouter(
+      [target("a"), target("b"), target("c")],
+      "round-robin",
+    );
+    const served = [];
+    for (let i = 0; i < 4; i++) {
+      served.push((await router.run(async (t) => t.deployment)).result);
+    }
+    assert.deepStrictEqual(served, ["a", "b", "c", "a"]);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { StrictSchemaError } from "../src/errors.js";
+import {
+  parseToolInput,
+  removeOptionalNulls,
+  toStrictJsonSchema,
+  tryStrictJsonSchema,
+} from "../src/schema.js";
+
+describe("toStrictJsonSchema", () => {
+  it("requires every property and makes optional ones nullable", () => {
+    assert.deepStrictEqual(
+      toStrictJsonSchema({
+        type: "object",
+        properties: { a: { type: "string" }, b: { type: "number" } },
+        required: ["a"],
+      }),
+      {
+        type: "object",
+        properties: { a: { type: "string" }, b: { type: ["number", "null"] } },
+        required: ["a", "b"],
+        additionalProperties: false,
+      },
+    );
+  });
+
+  it("inlines local refs and rewrites oneOf and const", () => {
+    assert.deepStrictEqual(
+      toStrictJsonSchema({
+        type: "object",
+        properties: {
+          address: { $ref: "#/$defs/Address" },
+          kind: { oneOf: [{ const: "a" }, { const: "b" }] },
+        },
+        required: ["address", "kind"],
+        $defs: {
+          Address: {
+            type: "object",
+            properties: { city: { type: "string" } },
+            required: ["city"],
+          },
+        },
+      }),
+      {
+        type: "object",
+        properties: {
+          address: {
+            type: "object",
+            properties: { city: { type: "string" } },
+            required: ["city"],
+            additionalProperties: false,
+          },
+          kind: { anyOf: [{ enum: ["a"] }, { enum: ["b"] }] },
+        },
+        required: ["address", "kind"],
+        additionalProperties: false,
+      },
+    );
+  });
+
+  it("moves unsupported keywords to the description", () => {
+    const schema = toStrictJsonSchema({
+      type: "object",
+      properties: {
+        n: { type: "integer", minimum: 1, description: "Count" },
+      },
+      required: ["n"],
+    });
+    assert.deepStrictEqual((schema.properties as Record<string, unknown>).n, {
+      type: "integer",
+      description: "Count (minimum: 1)",
+    });
+  });
+
+  it("rejects constructs strict mode cannot express, naming the path", () => {
+    const cases: [Record<string, unknown>, string][] = [
+      [{ type: "array", items: { type: "string" } }, "$"],
+      [
+        {
+          type: "object",
+          properties: { tags: { type: "object", additionalProperties: {} } },
+        },
+        "$.properties.tags",
+      ],
+      [
+        {
+          type: "object",
+          properties: { a: { allOf: [{ type: "string" }] } },
+        },
+        "$.properties.a",
+      ],
+      [
+        {
+          type: "object",
+          properties: { node: { $ref: "#/$defs/Node" } },
+          $defs: {
+            Node: {
+              type: "object",
+              properties: { next: { $ref: "#/$defs/Node" } },
+            },
+          },
+        },
+        "$.properties.node.properties.next",
+      ],
+    ];
+    for (const [schema, path] of cases) {
+      assert.throws(
+        () => toStrictJsonSchema(schema),
+        (e: unknown) => e instanceof StrictSchemaError && e.path === path,
+      );
+    }
+  });
+});
+
+describe("tryStrictJsonSchema", () => {
+  it("returns undefined for schemas strict mode cannot express", () => {
+    assert.strictEqual(
+      tryStrictJsonSchema({ type: "array", items: { type: "string" } }),
+      undefined,
+    );
+  });
+
+  it("returns the strict schema otherwise", () => {
+    assert.deepStrictEqual(tryStrictJsonSchema({ type: "object" }), {
+      type: "object",
+      properties: {},
+      required: [],
+      additionalProperties: false,
+    });
+  });
+});
+
+describe("removeOptionalNulls", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      a: { type: "string" },
+      b: { type: "string" },
+      c: { type: ["string", "null"] },
+      items: {
+        type: "array",
+        items: { $ref: "#/$defs/Item" },
+      },
+    },
+    required: ["a"],
+    $defs: {
+      Item: { type: "object", properties: { d: { type: "number" } } },
+    },
+  };
+
+  it("removes the nulls of optional properties, recursively", () => {
+    assert.deepStrictEqual(
+      removeOptionalNulls(
+        { a: "x", b: null, c: null, items: [{ d: null }, { d: 1 }] },
+        schema,
+      ),
+      { a: "x", c: null, items: [{}, { d: 1 }] },
+    );
+  });
+
+  it("keeps the nulls of required properties", () => {
+    assert.deepStrictEqual(removeOptionalNulls({ a: null }, schema), {
+      a: null,
+    });
+  });
+});
+
+describe("parseToolInput", () => {
+  const tools = [
+    {
+      name: "weather",
+      description: "Weather forecast",
+      inputSchema: {
+        type: "object",
+        properties: { city: { type: "string" }, days: { type: "number" } },
+        required: ["city"],
+      },
+    },
+  ];
+
+  it("parses the arguments and removes the nulls of optional ones", () => {
+    assert.deepStrictEqual(
+      parseToolInput("weather", '{"city":"Oslo","days":null}', tools),
+      { city: "Oslo" },
+    );
+  });
+
+  it("keeps the nulls of unknown tools", () => {
+    assert.deepStrictEqual(parseToolInput("other", '{"days":null}', tools), {
+      days: null,
+    });
+  });
+
+  it("parses partial arguments as far as they have arrived", () => {
+    assert.deepStrictEqual(
+      parseToolInput("weather", '{"days":null,"city":"Os', tools, true),
+      { city: "Os" },
+    );
+  });
+
+  it("throws on invalid complete arguments", () => {
+    assert.throws(() => parseToolInput("weather", "{", tools));
+  });
+});
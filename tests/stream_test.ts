@@ -0,0 +1,164 @@
+/**
+ * Copyright 2026 Xavier Portilla Edo
+ * Copyright 2026 Google LLC
+ * Copyright 2026 Bloom Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import type { ChatCompletionChunk } from "openai/resources/index";
+import { PartialJsonAccumulator, ToolCallAccumulator } from "../src/stream.js";
+
+function choice(
+  index: number,
+  toolCalls: ChatCompletionChunk.Choice.Delta.ToolCall[],
+): ChatCompletionChunk.Choice {
+  return {
+    index,
+    delta: { tool_calls: toolCalls },
+    finish_reason: null,
+  };
+}
+
+describe("ToolCallAccumulator", () => {
+  it("assembles the fragments of each tool call", () => {
+    const toolCalls = new ToolCallAccumulator();
+    toolCalls.add(
+      choice(0, [
+        { index: 0, id: "a", function: { name: "weather", arguments: "" } },
+      ]),
+    );
+    toolCalls.add(
+      choice(0, [
+        { index: 1, id: "b", function: { name: "time", arguments: "{}" } },
+        { index: 0, function: { arguments: '{"city":' } },
+      ]),
+    );
+    toolCalls.add(
+      choice(0, [{ index: 0, function: { arguments: '"Oslo"}' } }]),
+    );
+    assert.deepStrictEqual(toolCalls.flush(0), [
+      {
+        id: "a",
+        type: "function",
+        function: { name: "weather", arguments: '{"city":"Oslo"}' },
+      },
+      {
+        id: "b",
+        type: "function",
+        function: { name: "time", arguments: "{}" },
+      },
+    ]);
+    assert.deepStrictEqual(toolCalls.flush(0), []);
+  });
+
+  it("takes a repeated name instead of appending it", () => {
+    const toolCalls = new ToolCallAccumulator();
+    toolCalls.add(choice(0, [{ index: 0, id: "a", function: { name: "f" } }]));
+    toolCalls.add(choice(0, [{ index: 0, function: { name: "f" } }]));
+    assert.strictEqual(toolCalls.flush(0)[0].function.name, "f");
+  });
+
+  it("keeps the tool calls of each choice apart", () => {
+    const toolCalls = new ToolCallAccumulator();
+    assert.strictEqual(
+      toolCalls.add({ index: 0, delta: {}, finish_reason: null }),
+      false,
+    );
+    toolCalls.add(choice(0, [{ index: 0, id: "a", function: { name: "f" } }]));
+    toolCalls.add(choice(1, [{ index: 0, id: "b", function: { name: "g" } }]));
+    assert.deepStrictEqual(toolCalls.pendingChoices(), [0, 1]);
+    assert.strictEqual(toolCalls.flush(1)[0].id, "b");
+    assert.deepStrictEqual(toolCalls.pendingChoices(), [0]);
+  });
+
+  it("previews tool calls with their arguments parsed so far", () => {
+    const toolCalls = new ToolCallAccumulator();
+    toolCalls.add(
+      choice(0, [
+        {
+          index: 0,
+          id: "a",
+          function: { name: "weather", arguments: '{"city":"Os' },
+        },
+      ]),
+    );
+    assert.deepStrictEqual(toolCalls.preview(0), [
+      {
+        toolRequest: {
+          name: "weather",
+          ref: "a",
+          input: { city: "Os" },
+          partial: true,
+        },
+      },
+    ]);
+  });
+
+  it("removes the nulls of optional arguments from previews", () => {
+    const toolCalls = new ToolCallAccumulator();
+    toolCalls.add(
+      choice(0, [
+        {
+          index: 0,
+          id: "a",
+          function: {
+            name: "weather",
+            arguments: '{"city":null,"unit":null,"days":[{"hour":null',
+          },
+        },
+      ]),
+    );
+    const tools = [
+      {
+        name: "weather",
+        description: "Weather forecast",
+        inputSchema: {
+          type: "object",
+          properties: {
+            city: { type: "string" },
+            unit: { type: ["string", "null"] },
+            days: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: { hour: { type: "number" } },
+              },
+            },
+          },
+        },
+      },
+    ];
+    assert.deepStrictEqual(toolCalls.preview(0, tools), [
+      {
+        toolRequest: {
+          name: "weather",
+          ref: "a",
+          input: { unit: null, days: [{}] },
+          partial: true,
+        },
+      },
+    ]);
+  });
+});
+
+describe("PartialJsonAccumulator", () => {
+  it("parses the text of each choice so far", () => {
+    const json = new PartialJsonAccumulator();
+    assert.deepStrictEqual(json.add(0, '{"a": [1, '), { a: [1] });
+    assert.deepStrictEqual(json.add(1, "[true"), [true]);
+    assert.deepStrictEqual(json.add(0, "2]}"), { a: [1, 2] });
+  });
+});